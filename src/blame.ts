@@ -0,0 +1,164 @@
+import { Extension, StateEffect, StateField } from '@codemirror/state';
+import { EditorView, GutterMarker, ViewPlugin, ViewUpdate, gutter } from '@codemirror/view';
+import { editorInfoField } from 'obsidian';
+import { BlameLine } from './git';
+
+// Wait for Obsidian to save the note before blaming it again
+const RELOAD_DELAY = 3000;
+
+const setBlame = StateEffect.define<BlameLine[] | null>();
+
+/**
+ * Blame for the note in this editor, indexed by line number - 1.
+ * Cleared on edit since line numbers no longer match what was blamed.
+ */
+const blameField = StateField.define<BlameLine[] | null>({
+	create: () => null,
+	update(blame, transaction) {
+		for (const effect of transaction.effects) {
+			if (effect.is(setBlame)) {
+				return effect.value;
+			}
+		}
+		return transaction.docChanged ? null : blame;
+	}
+});
+
+function describe(line: BlameLine): string {
+	if (!line.committed) {
+		return 'Uncommitted';
+	}
+	return `${line.author} · ${new Date(line.authorTime * 1000).toLocaleDateString()}`;
+}
+
+class BlameMarker extends GutterMarker {
+	plugin: any;
+	line: BlameLine;
+
+	constructor(plugin: any, line: BlameLine) {
+		super();
+		this.plugin = plugin;
+		this.line = line;
+	}
+
+	eq(other: BlameMarker): boolean {
+		return other.line === this.line;
+	}
+
+	toDOM(): Node {
+		const el = document.createElement('div');
+		el.className = this.line.committed ? 'git-blame-marker' : 'git-blame-marker is-uncommitted';
+		el.textContent = describe(this.line);
+		if (!this.line.committed) {
+			return el;
+		}
+
+		const tooltip = `${this.line.summary}\n${this.line.author} · ${new Date(this.line.authorTime * 1000).toLocaleString()}\n🔖 ${this.line.hash.substring(0, 7)}`;
+		el.setAttribute('aria-label', tooltip);
+		// Looking up the PR costs an API call, so only do it once the user shows interest
+		el.addEventListener('mouseenter', async () => {
+			const pr = await this.plugin.gitOps.getPullRequestForCommit(this.line.hash);
+			if (pr) {
+				el.setAttribute('aria-label', `${tooltip}\n🔀 #${pr.number}: ${pr.title}`);
+			}
+		}, { once: true });
+		el.addEventListener('click', async () => {
+			const pr = await this.plugin.gitOps.getPullRequestForCommit(this.line.hash);
+			window.open(pr ? pr.html_url : this.plugin.gitOps.getCommitUrl(this.line.hash));
+		});
+		return el;
+	}
+}
+
+/**
+ * Editor gutter showing who last changed each line of the note and when.
+ * Labels appear on the first line of each run of lines from the same commit;
+ * clicking one opens the pull request (or commit) that introduced it.
+ */
+export function createBlameExtension(plugin: any): Extension {
+	const loader = ViewPlugin.fromClass(class {
+		view: EditorView;
+		path: string | null = null;
+		timer: number | null = null;
+		destroyed = false;
+		onQueueChange: () => void;
+
+		constructor(view: EditorView) {
+			this.view = view;
+			// Commits, pulls and branch switches all change the blame; reload once git goes idle
+			this.onQueueChange = () => {
+				if (!plugin.gitQueue.isBusy()) {
+					this.load();
+				}
+			};
+			plugin.gitQueue.on('change', this.onQueueChange);
+			this.load();
+		}
+
+		update(update: ViewUpdate) {
+			// Obsidian reuses the editor when another note opens in the same pane
+			if (this.currentPath() !== this.path) {
+				this.load();
+			} else if (update.docChanged) {
+				this.scheduleLoad();
+			}
+		}
+
+		currentPath(): string | null {
+			const info = this.view.state.field(editorInfoField, false);
+			return info && info.file ? info.file.path : null;
+		}
+
+		scheduleLoad() {
+			if (this.timer !== null) {
+				window.clearTimeout(this.timer);
+			}
+			this.timer = window.setTimeout(() => {
+				this.timer = null;
+				this.load();
+			}, RELOAD_DELAY);
+		}
+
+		async load() {
+			const path = this.currentPath();
+			this.path = path;
+			const blame = path && plugin.settings.isRepositoryConnected
+				? await plugin.gitOps.getBlame(path)
+				: null;
+			// The editor may have closed or moved on to another note meanwhile
+			if (this.destroyed || this.path !== path) {
+				return;
+			}
+			this.view.dispatch({ effects: setBlame.of(blame) });
+		}
+
+		destroy() {
+			this.destroyed = true;
+			if (this.timer !== null) {
+				window.clearTimeout(this.timer);
+			}
+			plugin.gitQueue.off('change', this.onQueueChange);
+		}
+	});
+
+	return [
+		blameField,
+		loader,
+		gutter({
+			class: 'git-blame-gutter',
+			lineMarker(view, line) {
+				const blame = view.state.field(blameField, false);
+				if (!blame) {
+					return null;
+				}
+				const lineNumber = view.state.doc.lineAt(line.from).number;
+				const entry = blame[lineNumber - 1];
+				if (!entry || (lineNumber > 1 && blame[lineNumber - 2] === entry)) {
+					return null;
+				}
+				return new BlameMarker(plugin, entry);
+			},
+			lineMarkerChange: update => update.startState.field(blameField, false) !== update.state.field(blameField, false)
+		})
+	];
+}
@@ -0,0 +1,83 @@
+export type HunkChoice = 'ours' | 'theirs' | 'both' | 'base';
+
+export interface ConflictHunk {
+	ours: string[];
+	base: string[];
+	theirs: string[];
+	choice?: HunkChoice;
+}
+
+export type ConflictSegment =
+	| { type: 'common'; lines: string[] }
+	| { type: 'conflict'; hunk: ConflictHunk };
+
+// Longer than git's default of 7 so a setext heading underline (=======) or a quoted
+// marker in a note is never mistaken for one; pass to `git merge-file --marker-size`
+export const CONFLICT_MARKER_SIZE = 32;
+
+const OURS_MARKER = `${'<'.repeat(CONFLICT_MARKER_SIZE)} `;
+const BASE_MARKER = `${'|'.repeat(CONFLICT_MARKER_SIZE)} `;
+const SEPARATOR_MARKER = '='.repeat(CONFLICT_MARKER_SIZE);
+const THEIRS_MARKER = `${'>'.repeat(CONFLICT_MARKER_SIZE)} `;
+
+/**
+ * Split diff3-style merge output (as written by `git merge-file --diff3` with
+ * CONFLICT_MARKER_SIZE markers) into
+ * unchanged runs and conflict hunks
+ */
+export function parseDiff3(text: string): ConflictSegment[] {
+	const segments: ConflictSegment[] = [];
+	let common: string[] = [];
+	let hunk: ConflictHunk | null = null;
+	let section: 'ours' | 'base' | 'theirs' = 'ours';
+
+	for (const line of text.split('\n')) {
+		if (!hunk && line.startsWith(OURS_MARKER)) {
+			if (common.length > 0) {
+				segments.push({ type: 'common', lines: common });
+				common = [];
+			}
+			hunk = { ours: [], base: [], theirs: [] };
+			section = 'ours';
+		} else if (hunk && section === 'ours' && line.startsWith(BASE_MARKER)) {
+			section = 'base';
+		} else if (hunk && section !== 'theirs' && line === SEPARATOR_MARKER) {
+			section = 'theirs';
+		} else if (hunk && section === 'theirs' && line.startsWith(THEIRS_MARKER)) {
+			segments.push({ type: 'conflict', hunk });
+			hunk = null;
+		} else if (hunk) {
+			hunk[section].push(line);
+		} else {
+			common.push(line);
+		}
+	}
+
+	if (common.length > 0) {
+		segments.push({ type: 'common', lines: common });
+	}
+	return segments;
+}
+
+/**
+ * Rebuild the file from the chosen side of each hunk, or null while any hunk is undecided
+ */
+export function buildResolution(segments: ConflictSegment[]): string | null {
+	const lines: string[] = [];
+	for (const segment of segments) {
+		if (segment.type === 'common') {
+			lines.push(...segment.lines);
+			continue;
+		}
+
+		const { hunk } = segment;
+		switch (hunk.choice) {
+			case 'ours': lines.push(...hunk.ours); break;
+			case 'theirs': lines.push(...hunk.theirs); break;
+			case 'base': lines.push(...hunk.base); break;
+			case 'both': lines.push(...hunk.ours, ...hunk.theirs); break;
+			default: return null;
+		}
+	}
+	return lines.join('\n');
+}
@@ -0,0 +1,203 @@
+export interface DiffOp {
+	type: 'equal' | 'insert' | 'delete';
+	tokens: string[];
+}
+
+// Above this many LCS cells (after trimming common ends) we stop looking for alignment
+const MAX_DIFF_CELLS = 4000000;
+
+/**
+ * Longest-common-subsequence diff of two token sequences.
+ * Consecutive tokens of the same kind are merged into one op.
+ */
+export function diffSequences(a: string[], b: string[]): DiffOp[] {
+	const ops: DiffOp[] = [];
+	const push = (type: DiffOp['type'], token: string) => {
+		const last = ops[ops.length - 1];
+		if (last && last.type === type) {
+			last.tokens.push(token);
+		} else {
+			ops.push({ type, tokens: [token] });
+		}
+	};
+
+	// Trim the common prefix and suffix; most edits touch a small part of a note
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	for (let i = 0; i < start; i++) {
+		push('equal', a[i]);
+	}
+
+	const midA = a.slice(start, endA);
+	const midB = b.slice(start, endB);
+	const n = midA.length;
+	const m = midB.length;
+
+	if (n * m > MAX_DIFF_CELLS) {
+		midA.forEach(token => push('delete', token));
+		midB.forEach(token => push('insert', token));
+	} else {
+		// table[i][j] = LCS length of midA[i..] and midB[j..]
+		const width = m + 1;
+		const table = new Uint32Array((n + 1) * width);
+		for (let i = n - 1; i >= 0; i--) {
+			for (let j = m - 1; j >= 0; j--) {
+				table[i * width + j] = midA[i] === midB[j]
+					? table[(i + 1) * width + j + 1] + 1
+					: Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+			}
+		}
+
+		let i = 0;
+		let j = 0;
+		while (i < n && j < m) {
+			if (midA[i] === midB[j]) {
+				push('equal', midA[i]);
+				i++;
+				j++;
+			} else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+				push('delete', midA[i++]);
+			} else {
+				push('insert', midB[j++]);
+			}
+		}
+		while (i < n) push('delete', midA[i++]);
+		while (j < m) push('insert', midB[j++]);
+	}
+
+	for (let i = endA; i < a.length; i++) {
+		push('equal', a[i]);
+	}
+	return ops;
+}
+
+/**
+ * Split a line into words, whitespace runs and punctuation so highlights land on whole words
+ */
+export function tokenizeWords(text: string): string[] {
+	return text.split(/(\s+|[^\w\s])/).filter(token => token.length > 0);
+}
+
+export interface DiffLinePosition {
+	// 1-based line numbers; null on the side the line doesn't exist in
+	oldLine: number | null;
+	newLine: number | null;
+}
+
+export interface ProseDiffOptions {
+	// Highlight changed words inside modified lines (markdown); otherwise whole lines
+	wordLevel?: boolean;
+	// Unchanged lines kept around each change; longer runs are collapsed
+	context?: number;
+	// Called for every line shown, e.g. to attach comments to it
+	onLine?: (lineEl: HTMLElement, position: DiffLinePosition) => void;
+}
+
+/**
+ * Render a readable diff of two text versions: unchanged paragraphs are collapsed,
+ * modified lines show inline word insertions and deletions
+ */
+export function renderProseDiff(container: HTMLElement, oldText: string, newText: string, options: ProseDiffOptions = {}) {
+	const context = options.context !== undefined ? options.context : 2;
+	const diffEl = container.createDiv({ cls: 'git-diff' });
+
+	const ops = diffSequences(oldText.split('\n'), newText.split('\n'));
+	if (ops.every(op => op.type === 'equal')) {
+		diffEl.createDiv({ text: 'No changes', cls: 'git-diff-collapsed' });
+		return;
+	}
+
+	let oldLine = 1;
+	let newLine = 1;
+	const addLine = (lineEl: HTMLElement, inOld: boolean, inNew: boolean) => {
+		if (options.onLine) {
+			options.onLine(lineEl, { oldLine: inOld ? oldLine : null, newLine: inNew ? newLine : null });
+		}
+		if (inOld) oldLine++;
+		if (inNew) newLine++;
+	};
+
+	ops.forEach((op, index) => {
+		if (op.type === 'equal') {
+			renderUnchanged(diffEl, op.tokens, index === 0 ? 0 : context, index === ops.length - 1 ? 0 : context,
+				lineEl => addLine(lineEl, true, true),
+				hidden => {
+					oldLine += hidden;
+					newLine += hidden;
+				});
+			return;
+		}
+
+		// A delete directly followed by an insert is a modification; pair the lines up
+		const next = ops[index + 1];
+		if (op.type === 'delete' && next && next.type === 'insert') {
+			const paired = Math.min(op.tokens.length, next.tokens.length);
+			for (let i = 0; i < paired; i++) {
+				if (options.wordLevel) {
+					addLine(renderModifiedLine(diffEl, op.tokens[i], next.tokens[i]), true, true);
+				} else {
+					addLine(diffEl.createDiv({ text: op.tokens[i] || ' ', cls: 'git-diff-line git-diff-line-del' }), true, false);
+					addLine(diffEl.createDiv({ text: next.tokens[i] || ' ', cls: 'git-diff-line git-diff-line-ins' }), false, true);
+				}
+			}
+			op.tokens.slice(paired).forEach(line => {
+				addLine(diffEl.createDiv({ text: line || ' ', cls: 'git-diff-line git-diff-line-del' }), true, false);
+			});
+			// Mark the remaining insertions so the next iteration only renders what's left
+			next.tokens = next.tokens.slice(paired);
+			return;
+		}
+
+		const cls = op.type === 'insert' ? 'git-diff-line-ins' : 'git-diff-line-del';
+		op.tokens.forEach(line => {
+			addLine(diffEl.createDiv({ text: line || ' ', cls: `git-diff-line ${cls}` }), op.type === 'delete', op.type === 'insert');
+		});
+	});
+}
+
+function renderUnchanged(container: HTMLElement, lines: string[], headCount: number, tailCount: number,
+	onLine: (lineEl: HTMLElement) => void, onHidden: (count: number) => void) {
+	// headCount lines follow the previous change, tailCount lines lead into the next one
+	const head = lines.slice(0, headCount);
+	const rest = lines.slice(head.length);
+	const tail = tailCount > 0 ? rest.slice(Math.max(0, rest.length - tailCount)) : [];
+	const hidden = rest.length - tail.length;
+
+	head.forEach(line => onLine(container.createDiv({ text: line || ' ', cls: 'git-diff-line' })));
+	if (hidden > 0) {
+		container.createDiv({ text: `⋯ ${hidden} unchanged line(s)`, cls: 'git-diff-collapsed' });
+		onHidden(hidden);
+	}
+	tail.forEach(line => onLine(container.createDiv({ text: line || ' ', cls: 'git-diff-line' })));
+}
+
+function renderModifiedLine(container: HTMLElement, oldLine: string, newLine: string): HTMLElement {
+	const lineEl = container.createDiv({ cls: 'git-diff-line git-diff-line-mod' });
+	diffSequences(tokenizeWords(oldLine), tokenizeWords(newLine)).forEach(op => {
+		const text = op.tokens.join('');
+		if (op.type === 'equal') {
+			lineEl.appendText(text);
+		} else {
+			lineEl.createSpan({ text, cls: op.type === 'insert' ? 'git-diff-ins' : 'git-diff-del' });
+		}
+	});
+	return lineEl;
+}
+
+/**
+ * Human-readable byte size for attachment summaries
+ */
+export function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,122 @@
+import { GitCommandError } from './runner';
+
+export type GitErrorKind =
+	| 'auth'
+	| 'non-fast-forward'
+	| 'merge-conflict'
+	| 'missing-upstream'
+	| 'offline'
+	| 'index-lock'
+	| 'detached-head'
+	| 'unknown';
+
+/**
+ * GitCollabError - Base class for classified git/GitHub failures
+ * `kind` drives which recovery action the error modal offers
+ */
+export class GitCollabError extends Error {
+	kind: GitErrorKind;
+	detail: string;
+
+	constructor(kind: GitErrorKind, message: string, detail = '') {
+		super(message);
+		this.name = 'GitCollabError';
+		this.kind = kind;
+		this.detail = detail;
+	}
+}
+
+export class AuthError extends GitCollabError {
+	constructor(detail = '') {
+		super('auth', 'GitHub rejected the credentials for this repository.', detail);
+	}
+}
+
+export class NonFastForwardError extends GitCollabError {
+	constructor(detail = '') {
+		super('non-fast-forward', 'The remote branch has commits you don\'t have yet.', detail);
+	}
+}
+
+export class MergeConflictError extends GitCollabError {
+	constructor(detail = '') {
+		super('merge-conflict', 'Some notes were changed both locally and on the remote.', detail);
+	}
+}
+
+export class MissingUpstreamError extends GitCollabError {
+	constructor(detail = '') {
+		super('missing-upstream', 'This branch doesn\'t exist on the remote yet.', detail);
+	}
+}
+
+export class NetworkOfflineError extends GitCollabError {
+	constructor(detail = '') {
+		super('offline', 'GitHub could not be reached. Check your internet connection.', detail);
+	}
+}
+
+export class IndexLockError extends GitCollabError {
+	constructor(detail = '') {
+		super('index-lock', 'Another git process appears to be running (index.lock is present).', detail);
+	}
+}
+
+export class DetachedHeadError extends GitCollabError {
+	constructor(detail = '') {
+		super('detached-head', 'The repository is not on any branch (detached HEAD).', detail);
+	}
+}
+
+// Order matters: "unable to access ... 403" is an auth failure, not a network one
+const STDERR_PATTERNS: [RegExp, (detail: string) => GitCollabError][] = [
+	[/index\.lock': File exists|Another git process seems to be running/i, detail => new IndexLockError(detail)],
+	[/Authentication failed|could not read Username|Invalid username or password|terminal prompts disabled|returned error: 40[13]|Permission to .* denied|password authentication was removed/i, detail => new AuthError(detail)],
+	[/CONFLICT|Automatic merge failed|unmerged (paths|files)|resolve your current index first/i, detail => new MergeConflictError(detail)],
+	[/non-fast-forward|\[rejected\]|Updates were rejected|fetch first|divergent branches|Need to specify how to reconcile/i, detail => new NonFastForwardError(detail)],
+	[/has no upstream branch|no tracking information|couldn't find remote ref/i, detail => new MissingUpstreamError(detail)],
+	[/Could not resolve host|Failed to connect|Connection timed out|Network is unreachable|Operation timed out|Could not read from remote repository|unable to access/i, detail => new NetworkOfflineError(detail)],
+	[/You are not currently on a branch|HEAD detached/i, detail => new DetachedHeadError(detail)]
+];
+
+/**
+ * Map a failed git command (or anything thrown around one) onto a typed error
+ */
+export function classifyGitError(error: unknown): GitCollabError {
+	if (error instanceof GitCollabError) {
+		return error;
+	}
+
+	const detail = error instanceof GitCommandError
+		? `${error.stderr}\n${error.stdout}`.trim()
+		: error instanceof Error ? error.message : String(error);
+
+	for (const [pattern, create] of STDERR_PATTERNS) {
+		if (pattern.test(detail)) {
+			return create(detail);
+		}
+	}
+	return new GitCollabError('unknown', detail.split('\n')[0] || 'Unknown git error', detail);
+}
+
+/**
+ * Map a failed GitHub API response onto a typed error
+ */
+export function classifyHttpError(status: number, body: unknown): GitCollabError {
+	const bodyMessage = typeof body === 'object' && body !== null ? (body as { message?: unknown }).message : undefined;
+	const message = typeof bodyMessage === 'string' && bodyMessage ? bodyMessage : `HTTP ${status}`;
+	if (status === 401 || (status === 403 && !/rate limit/i.test(message))) {
+		return new AuthError(message);
+	}
+	return new GitCollabError('unknown', message, message);
+}
+
+/**
+ * fetch() rejects (rather than returning a response) when the network is down
+ */
+export function classifyFetchError(error: unknown): GitCollabError {
+	if (error instanceof TypeError) {
+		return new NetworkOfflineError(error.message);
+	}
+	return classifyGitError(error);
+}
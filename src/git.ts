@@ -1,32 +1,248 @@
-import { App, MarkdownView, Notice, FileSystemAdapter } from 'obsidian';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { App, MarkdownView, Notice } from 'obsidian';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { GitCollabSettings } from './main';
-
-const execAsync = promisify(exec);
+import { GitRunner, GitCommandError } from './runner';
+import { GitCollabError, DetachedHeadError, classifyGitError, classifyHttpError, classifyFetchError } from './errors';
+import { GitErrorModal } from './modals';
+import { validateBranchName, isProtectedBranch } from './naming';
+import { CONFLICT_MARKER_SIZE } from './conflicts';
+
+export interface MergeVersions {
+	base: string | null;
+	ours: string | null;
+	theirs: string | null;
+}
+
+export interface ChangedFile {
+	path: string;
+	// Previous path for renames and copies
+	origPath?: string;
+	// Porcelain status letters for the index and the working tree
+	index: string;
+	workTree: string;
+}
+
+export interface FileDiff {
+	path: string;
+	binary: boolean;
+	// null when the file doesn't exist on that side (added or deleted)
+	oldText: string | null;
+	newText: string | null;
+	oldSize: number | null;
+	newSize: number | null;
+}
+
+export interface FileRevision {
+	hash: string;
+	shortHash: string;
+	author: string;
+	email: string;
+	date: string;
+	message: string;
+	// Path of the file in this revision (differs from today's path across renames)
+	path: string;
+	// Nearest branch containing the commit, if any
+	branch: string;
+}
+
+export interface RemoteBranch {
+	name: string;
+	author: string;
+	// ISO 8601 date of the branch's last commit
+	date: string;
+}
+
+export interface BranchDetails {
+	aheadOfMain: number;
+	behindMain: number;
+	// e.g. "origin/feature/x"; null when the branch was never pushed
+	upstream: string | null;
+	aheadOfUpstream: number;
+	behindUpstream: number;
+	lastCommitMessage: string;
+	// ISO 8601
+	lastCommitDate: string;
+}
+
+export interface BranchRename {
+	oldName: string;
+	newName: string;
+	// The open PR from the old branch; GitHub closes it once the old branch is deleted
+	closedPullRequest: any | null;
+}
+
+export interface RevertedChanges {
+	// Commit SHA of the stash holding the changes, so they can be re-applied later
+	stash: string;
+	files: ChangedFile[];
+}
+
+export interface MergedBranches {
+	local: string[];
+	// Branch names on origin, without the "origin/" prefix
+	remote: string[];
+}
+
+export interface BlameLine {
+	hash: string;
+	author: string;
+	// Seconds since the epoch
+	authorTime: number;
+	summary: string;
+	// False for lines that only exist in the working tree
+	committed: boolean;
+}
+
+export interface PullRequestRef {
+	number: number;
+	title: string;
+	html_url: string;
+}
+
+export interface PullRequestFile {
+	path: string;
+	// Path on the base side when the file was renamed
+	previousPath?: string;
+	// GitHub's file status: added, removed, modified, renamed, copied, changed or unchanged
+	status: string;
+	additions: number;
+	deletions: number;
+}
+
+export interface PullRequestComment {
+	id: number;
+	author: string;
+	body: string;
+	// ISO 8601
+	createdAt: string;
+	htmlUrl: string;
+}
+
+export interface ReviewComment extends PullRequestComment {
+	path: string;
+	// Line number in the file on `side` (not a diff position); null once the lines it was left on have changed (outdated)
+	line: number | null;
+	// LEFT is the base version of the file, RIGHT the PR's version
+	side: 'LEFT' | 'RIGHT';
+}
+
+export interface ReviewThread {
+	path: string;
+	line: number | null;
+	side: 'LEFT' | 'RIGHT';
+	// The first comment starts the thread; the rest are replies to it
+	comments: ReviewComment[];
+}
+
+export type ReviewEvent = 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT';
+
+export interface ReviewSummary {
+	// Reviewers whose latest review approves / requests changes
+	approvedBy: string[];
+	changesRequestedBy: string[];
+	requiredApprovals: number;
+}
+
+export interface CheckResult {
+	name: string;
+	state: 'success' | 'failure' | 'pending' | 'neutral';
+	description: string;
+	detailsUrl: string | null;
+	// Whether branch protection requires it to pass before merging
+	required: boolean;
+}
+
+export interface PullRequestChecks {
+	// Full PR detail; unlike the list endpoint it includes `mergeable`
+	pullRequest: any;
+	checks: CheckResult[];
+	// False when branch protection couldn't be read, so no check is known to be required
+	protectionKnown: boolean;
+}
+
+export interface PullRequestOptions {
+	// Branch to merge into; the main branch if not given
+	base?: string;
+	draft?: boolean;
+	reviewers?: string[];
+	// Team slugs
+	teamReviewers?: string[];
+	labels?: string[];
+	assignees?: string[];
+	// Milestone number
+	milestone?: number | null;
+}
+
+export interface PullRequestFormOptions {
+	collaborators: string[];
+	teams: { slug: string; name: string }[];
+	labels: string[];
+	assignees: string[];
+	milestones: { number: number; title: string }[];
+}
+
+export interface PullRequestTemplate {
+	name: string;
+	body: string;
+}
 
 export class GitOperations {
 	private plugin: any;
+	private git: GitRunner;
+	// Commit SHA -> PR that introduced it (null when none); commits never change, so this never expires
+	private pullRequestsByCommit: Map<string, PullRequestRef | null> = new Map();
+	// Base branch -> approvals its GitHub branch protection requires; null when we can't read it
+	private requiredApprovalsByBranch: Map<string, number | null> = new Map();
+	// Base branch -> status checks its GitHub branch protection requires; null when we can't read it
+	private requiredChecksByBranch: Map<string, string[] | null> = new Map();
 	
 	constructor(plugin: any) {
 		this.plugin = plugin;
+		this.git = plugin.gitRunner;
 	}
 	
+	/**
+	 * The main branch and anything matching the protected branch patterns
+	 */
+	isProtectedBranch(branchName: string): boolean {
+		return isProtectedBranch(branchName, this.plugin.settings);
+	}
+
+	/**
+	 * Why a new branch can't have this name, or null if it can
+	 */
+	validateNewBranchName(branchName: string): string | null {
+		if (this.isProtectedBranch(branchName)) {
+			return `"${branchName}" is a protected branch name`;
+		}
+		return validateBranchName(branchName, this.plugin.settings, this.plugin.settings.availableBranches);
+	}
+
 	async validateAndEnforceBranchRules(): Promise<boolean> {
+		return this.plugin.gitQueue.enqueue('Validate branch rules', () => this.validateAndEnforceBranchRulesTask());
+	}
+
+	private async validateAndEnforceBranchRulesTask(): Promise<boolean> {
 		if (!this.plugin.settings.isRepositoryConnected) {
 			return true; // No repository, no rules to enforce
 		}
 
 		try {
-			const adapter = this.plugin.app.vault.adapter;
-			if (!(adapter instanceof FileSystemAdapter)) {
+			if (this.git.getVaultPath() === null) {
 				return false;
 			}
 
-			const vaultPath = (adapter as any).basePath || '';
-			const { stdout: currentGitBranch } = await execAsync('git branch --show-current', { cwd: vaultPath });
+			const { stdout: currentGitBranch } = await this.git.run(['branch', '--show-current']);
 			const actualBranch = currentGitBranch.trim();
 
+			// An empty branch name means HEAD is detached; none of the rules below can apply
+			if (!actualBranch) {
+				this.reportError(new DetachedHeadError());
+				return false;
+			}
+
 			// VALIDATION: Ensure main branch setting is correct
 			if (this.plugin.settings.mainBranch !== 'main' && actualBranch === 'main') {
 				console.log('CORRECTING: Main branch setting should be "main"');
@@ -34,23 +250,24 @@ export class GitOperations {
 				await this.plugin.saveSettings();
 			}
 
-			// RULE 1: Read-only mode MUST be on main branch
-			if (this.plugin.settings.isReadOnlyMode && actualBranch !== this.plugin.settings.mainBranch) {
-				console.log(`ENFORCING: Read-only mode requires main branch. Switching from '${actualBranch}' to '${this.plugin.settings.mainBranch}'`);
-				await execAsync(`git checkout ${this.plugin.settings.mainBranch}`, { cwd: vaultPath });
+			// RULE 1: Read-only mode MUST be on a protected branch (main by default)
+			if (this.plugin.settings.isReadOnlyMode && !this.isProtectedBranch(actualBranch)) {
+				console.log(`ENFORCING: Read-only mode requires a protected branch. Switching from '${actualBranch}' to '${this.plugin.settings.mainBranch}'`);
+				await this.plugin.layouts.aroundCheckout(actualBranch, this.plugin.settings.mainBranch, () =>
+					this.git.run(['checkout', this.plugin.settings.mainBranch]));
 				this.plugin.settings.currentBranch = this.plugin.settings.mainBranch;
 				await this.plugin.saveSettings();
 				new Notice(`🔒 Switched to ${this.plugin.settings.mainBranch} for read-only mode`);
 				return true;
 			}
 
-			// RULE 2: Edit mode MUST NOT be on main branch
-			if (!this.plugin.settings.isReadOnlyMode && actualBranch === this.plugin.settings.mainBranch) {
-				console.log(`ENFORCING: Edit mode not allowed on main branch. Switching to read-only mode.`);
+			// RULE 2: Edit mode MUST NOT be on a protected branch
+			if (!this.plugin.settings.isReadOnlyMode && this.isProtectedBranch(actualBranch)) {
+				console.log(`ENFORCING: Edit mode not allowed on protected branch '${actualBranch}'. Switching to read-only mode.`);
 				this.plugin.settings.isReadOnlyMode = true;
 				await this.plugin.saveSettings();
 				this.plugin.readonlyOps.updateStatusBar();
-				new Notice(`🚫 Cannot edit on ${this.plugin.settings.mainBranch} branch. Switched to read-only mode.`);
+				new Notice(`🚫 Cannot edit on protected branch ${actualBranch}. Switched to read-only mode.`);
 				return false;
 			}
 
@@ -76,13 +293,11 @@ export class GitOperations {
 				return false;
 			}
 
-			const adapter = this.plugin.app.vault.adapter;
-			if (!(adapter instanceof FileSystemAdapter)) {
+			if (this.git.getVaultPath() === null) {
 				return false;
 			}
 
-			const vaultPath = (adapter as any).basePath || '';
-			const { stdout: statusOutput } = await execAsync('git status --porcelain', { cwd: vaultPath });
+			const { stdout: statusOutput } = await this.git.run(['status', '--porcelain']);
 			return statusOutput.trim().length > 0;
 		} catch (error) {
 			console.error('Failed to check for uncommitted changes:', error);
@@ -90,74 +305,152 @@ export class GitOperations {
 		}
 	}
 
-	async commitChanges(message: string): Promise<boolean> {
+	async getChangedFiles(paths?: string[]): Promise<ChangedFile[]> {
+		try {
+			if (this.git.getVaultPath() === null) {
+				return [];
+			}
+
+			// -z keeps paths with spaces unquoted; -uall lists files inside untracked folders
+			const pathspec = paths && paths.length > 0 ? ['--', ...paths] : [];
+			const { stdout } = await this.git.run(['status', '--porcelain=v1', '-z', '--untracked-files=all', ...pathspec]);
+			const entries = stdout.split('\0');
+			const files: ChangedFile[] = [];
+
+			for (let i = 0; i < entries.length; i++) {
+				const entry = entries[i];
+				if (entry.length < 4) {
+					continue;
+				}
+
+				const file: ChangedFile = { index: entry[0], workTree: entry[1], path: entry.substring(3) };
+				if (file.index === 'R' || file.index === 'C') {
+					// Renames and copies are followed by their source path
+					file.origPath = entries[++i];
+				}
+				files.push(file);
+			}
+
+			return files;
+		} catch (error) {
+			console.error('Failed to list changed files:', error);
+			return [];
+		}
+	}
+
+	/**
+	 * Compare a changed file in the working tree against its HEAD version
+	 */
+	async getFileDiff(file: ChangedFile): Promise<FileDiff> {
+		const vaultPath = this.git.getVaultPath() || '';
+		const headPath = file.origPath || file.path;
+
+		let oldText: string | null = null;
+		let oldSize: number | null = null;
+		try {
+			const { stdout: size } = await this.git.run(['cat-file', '-s', `HEAD:${headPath}`]);
+			oldSize = parseInt(size.trim()) || 0;
+			oldText = (await this.git.run(['show', `HEAD:${headPath}`])).stdout;
+		} catch (error) {
+			// Not in HEAD: the file is new
+		}
+
+		let newBuffer: Buffer | null = null;
+		try {
+			newBuffer = await fs.promises.readFile(path.join(vaultPath, file.path));
+		} catch (error) {
+			// Missing from the working tree: the file was deleted
+		}
+
+		// Same heuristic git uses: a NUL byte near the start means binary
+		const binary = (oldText !== null && oldText.substring(0, 8000).includes('\0'))
+			|| (newBuffer !== null && newBuffer.subarray(0, 8000).includes(0));
+
+		return {
+			path: file.path,
+			binary,
+			oldText: binary ? null : oldText,
+			newText: binary || newBuffer === null ? null : newBuffer.toString('utf8'),
+			oldSize,
+			newSize: newBuffer ? newBuffer.length : null
+		};
+	}
+
+	/**
+	 * Commit the working tree changes. When `paths` is given only those paths
+	 * are staged and committed; everything else stays as it is.
+	 */
+	async commitChanges(message: string, paths?: string[]): Promise<boolean> {
+		return this.plugin.gitQueue.enqueue('Commit changes', () => this.commitChangesTask(message, paths));
+	}
+
+	private async commitChangesTask(message: string, paths?: string[]): Promise<boolean> {
 		try {
 			if (!this.plugin.settings.isRepositoryConnected) {
 				return false;
 			}
 
-			const adapter = this.plugin.app.vault.adapter;
-			if (!(adapter instanceof FileSystemAdapter)) {
+			if (this.git.getVaultPath() === null) {
 				return false;
 			}
-
-			const vaultPath = (adapter as any).basePath || '';
 			
+			if (paths) {
+				// Stage (including deletions) and commit only the selected paths
+				await this.git.run(['add', '-A', '--', ...paths]);
+				await this.git.run(['commit', '-m', message, '--', ...paths]);
+				return true;
+			}
+
 			// Add all changes
-			await execAsync('git add .', { cwd: vaultPath });
+			await this.git.run(['add', '.']);
 			
 			// Commit with message
-			await execAsync(`git commit -m "${message}"`, { cwd: vaultPath });
+			await this.git.run(['commit', '-m', message]);
 			
 			return true;
 		} catch (error) {
 			console.error('Failed to commit changes:', error);
+			this.reportError(error);
 			return false;
 		}
 	}
 
 	async pushChanges(): Promise<boolean> {
+		return this.plugin.gitQueue.enqueue('Push changes', () => this.pushChangesTask());
+	}
+
+	private async pushChangesTask(): Promise<boolean> {
 		try {
 			if (!this.plugin.settings.isRepositoryConnected) {
 				return false;
 			}
 
-			const adapter = this.plugin.app.vault.adapter;
-			if (!(adapter instanceof FileSystemAdapter)) {
+			if (this.git.getVaultPath() === null) {
 				return false;
 			}
 
-			const vaultPath = (adapter as any).basePath || '';
 			const currentBranch = this.plugin.settings.currentBranch;
 			
 			// First, fetch latest changes from remote
 			try {
-				await execAsync('git fetch origin', { cwd: vaultPath });
+				await this.git.run(['fetch', 'origin']);
 			} catch (fetchError) {
 				console.log('Fetch failed, continuing with push:', fetchError);
 			}
 			
 			// Check if local branch is behind remote
 			try {
-				const { stdout: behindCount } = await execAsync(
-					`git rev-list --count HEAD..origin/${currentBranch}`, 
-					{ cwd: vaultPath }
-				);
+				const { stdout: behindCount } = await this.git.run(['rev-list', '--count', `HEAD..origin/${currentBranch}`]);
 				
 				if (parseInt(behindCount.trim()) > 0) {
 					// Local is behind, try to pull
 					try {
-						// Temporarily disable file deletion during pull
-						this.plugin.isGitOperationInProgress = true;
-						await execAsync(`git pull origin ${currentBranch}`, { cwd: vaultPath });
+						await this.git.run(['pull', '--no-rebase', 'origin', currentBranch]);
 						new Notice(`📥 Pulled ${behindCount.trim()} update(s) from remote before pushing`);
 					} catch (pullError) {
 						console.error('Pull failed:', pullError);
-						new Notice('❌ Cannot push: Local branch is behind remote and pull failed. Please resolve conflicts manually.');
+						this.reportError(pullError, '❌ Cannot push: Local branch is behind remote and pull failed', () => this.pushChanges());
 						return false;
-					} finally {
-						// Always re-enable file deletion protection
-						this.plugin.isGitOperationInProgress = false;
 					}
 				}
 			} catch (checkError) {
@@ -166,11 +459,12 @@ export class GitOperations {
 			}
 			
 			// Now push the changes
-			await execAsync(`git push origin ${currentBranch}`, { cwd: vaultPath });
+			await this.git.run(['push', 'origin', currentBranch]);
 			
 			return true;
 		} catch (error) {
 			console.error('Failed to push changes:', error);
+			this.reportError(error, undefined, () => this.pushChanges());
 			return false;
 		}
 	}
@@ -181,15 +475,12 @@ export class GitOperations {
 				return false;
 			}
 
-			const adapter = this.plugin.app.vault.adapter;
-			if (!(adapter instanceof FileSystemAdapter)) {
+			if (this.git.getVaultPath() === null) {
 				return false;
 			}
-
-			const vaultPath = (adapter as any).basePath || '';
 			
 			// Check if branch exists on remote
-			await execAsync(`git ls-remote --exit-code origin ${branchName}`, { cwd: vaultPath });
+			await this.git.run(['ls-remote', '--exit-code', 'origin', branchName]);
 			return true;
 		} catch (error) {
 			// Branch doesn't exist on remote
@@ -197,7 +488,7 @@ export class GitOperations {
 		}
 	}
 
-	async createPullRequest(branchName: string, title: string, description: string, token?: string): Promise<boolean> {
+	async createPullRequest(branchName: string, title: string, description: string, token?: string, options: PullRequestOptions = {}): Promise<boolean> {
 		try {
 			if (!this.plugin.settings.repositoryUrl) {
 				return false;
@@ -222,7 +513,8 @@ export class GitOperations {
 				title,
 				body: description,
 				head: branchName,
-				base: this.plugin.settings.mainBranch
+				base: options.base || this.plugin.settings.mainBranch,
+				draft: !!options.draft
 			};
 
 			const response = await fetch(`https://api.github.com/repos/${owner}/${repo}/pulls`, {
@@ -237,20 +529,130 @@ export class GitOperations {
 
 			if (response.ok) {
 				const pr = await response.json();
-				new Notice(`Pull Request created: #${pr.number}`);
+				new Notice(`${options.draft ? 'Draft pull request' : 'Pull Request'} created: #${pr.number}`);
+				await this.applyPullRequestOptions(pr.number, options);
+				// The proposal lives on as the pull request
+				if (this.plugin.settings.editProposals[branchName]) {
+					delete this.plugin.settings.editProposals[branchName];
+					await this.plugin.saveSettings();
+				}
 				return true;
 			} else {
 				const error = await response.json();
-				new Notice(`Failed to create PR: ${error.message || 'Unknown error'}`);
+				this.reportError(classifyHttpError(response.status, error), 'Failed to create PR');
 				return false;
 			}
 		} catch (error) {
 			console.error('Failed to create pull request:', error);
-			new Notice('Failed to create pull request');
+			this.reportError(classifyFetchError(error), 'Failed to create pull request');
 			return false;
 		}
 	}
 
+	/**
+	 * Reviewers, labels, assignees and milestone can't be set when a PR is created;
+	 * the PR stands even if these fail, so failures are only reported
+	 */
+	private async applyPullRequestOptions(prNumber: number, options: PullRequestOptions) {
+		const failed: string[] = [];
+		try {
+			const reviewers = options.reviewers || [];
+			const teamReviewers = options.teamReviewers || [];
+			if (reviewers.length > 0 || teamReviewers.length > 0) {
+				const response = await this.githubFetch(`/pulls/${prNumber}/requested_reviewers`, {
+					method: 'POST',
+					body: JSON.stringify({ reviewers, team_reviewers: teamReviewers })
+				});
+				if (!response || !response.ok) {
+					failed.push('reviewers');
+				}
+			}
+
+			const issueUpdate: Record<string, unknown> = {};
+			if (options.labels && options.labels.length > 0) issueUpdate.labels = options.labels;
+			if (options.assignees && options.assignees.length > 0) issueUpdate.assignees = options.assignees;
+			if (options.milestone) issueUpdate.milestone = options.milestone;
+			if (Object.keys(issueUpdate).length > 0) {
+				// Pull requests are issues as far as these fields are concerned
+				const response = await this.githubFetch(`/issues/${prNumber}`, {
+					method: 'PATCH',
+					body: JSON.stringify(issueUpdate)
+				});
+				if (!response || !response.ok) {
+					failed.push('labels, assignees or milestone');
+				}
+			}
+		} catch (error) {
+			console.error('Failed to update pull request:', error);
+			failed.push('details');
+		}
+
+		if (failed.length > 0) {
+			new Notice(`⚠️ Pull request created, but setting its ${failed.join(' and ')} failed`);
+		}
+	}
+
+	/**
+	 * Choices for the PR form; anything the token can't list comes back empty
+	 */
+	async getPullRequestFormOptions(): Promise<PullRequestFormOptions> {
+		const [collaborators, teams, labels, assignees, milestones] = await Promise.all([
+			this.githubFetchOptional('/collaborators'),
+			this.githubFetchOptional('/teams'),
+			this.githubFetchOptional('/labels'),
+			this.githubFetchOptional('/assignees'),
+			this.githubFetchOptional('/milestones?state=open')
+		]);
+		return {
+			collaborators: collaborators.map((user: any) => user.login),
+			teams: teams.map((team: any) => ({ slug: team.slug, name: team.name })),
+			labels: labels.map((label: any) => label.name),
+			assignees: assignees.map((user: any) => user.login),
+			milestones: milestones.map((milestone: any) => ({ number: milestone.number, title: milestone.title }))
+		};
+	}
+
+	private async githubFetchOptional(endpoint: string): Promise<any[]> {
+		try {
+			const separator = endpoint.includes('?') ? '&' : '?';
+			const response = await this.githubFetch(`${endpoint}${separator}per_page=100`);
+			return response && response.ok ? await response.json() : [];
+		} catch (error) {
+			console.log(`Could not load ${endpoint}:`, error);
+			return [];
+		}
+	}
+
+	/**
+	 * Pull request templates in the working copy, looked up where GitHub looks for them:
+	 * a single template in .github/, the root or docs/, and any in a PULL_REQUEST_TEMPLATE/ directory
+	 */
+	async getPullRequestTemplates(): Promise<PullRequestTemplate[]> {
+		const adapter = this.plugin.app.vault.adapter;
+		const templates: PullRequestTemplate[] = [];
+		try {
+			for (const dir of ['.github/', '', 'docs/']) {
+				const single = [`${dir}pull_request_template.md`, `${dir}PULL_REQUEST_TEMPLATE.md`];
+				for (const templatePath of single) {
+					if (templates.length === 0 && await adapter.exists(templatePath)) {
+						templates.push({ name: 'Default', body: await adapter.read(templatePath) });
+					}
+				}
+
+				const templateDir = `${dir}PULL_REQUEST_TEMPLATE`;
+				if (await adapter.exists(templateDir)) {
+					const listing = await adapter.list(templateDir);
+					for (const templatePath of listing.files.filter((file: string) => file.toLowerCase().endsWith('.md'))) {
+						templates.push({ name: (templatePath.split('/').pop() || templatePath).replace(/\.md$/i, ''), body: await adapter.read(templatePath) });
+					}
+				}
+			}
+		} catch (error) {
+			console.error('Failed to read pull request templates:', error);
+		}
+		return templates;
+	}
+
 	// ============================================================================
 	// PULL REQUEST MANAGEMENT API
 	// ============================================================================
@@ -316,12 +718,12 @@ export class GitOperations {
 				return true;
 			} else {
 				const error = await response.json();
-				new Notice(`Failed to merge PR: ${error.message || 'Unknown error'}`);
+				this.reportError(classifyHttpError(response.status, error), 'Failed to merge PR');
 				return false;
 			}
 		} catch (error) {
 			console.error('Failed to merge pull request:', error);
-			new Notice('Failed to merge pull request');
+			this.reportError(classifyFetchError(error), 'Failed to merge pull request');
 			return false;
 		}
 	}
@@ -365,59 +767,81 @@ export class GitOperations {
 		}
 	}
 
+	/**
+	 * Call the GitHub REST API for the connected repository using its stored token.
+	 * Resolves null when no token is configured; callers decide whether to tell the user.
+	 */
+	async githubFetch(endpoint: string, init: RequestInit = {}): Promise<Response | null> {
+		const token = this.plugin.getRepositoryToken(this.plugin.settings.repositoryUrl);
+		if (!token) {
+			return null;
+		}
+
+		const urlParts = this.plugin.settings.repositoryUrl.replace('.git', '').split('/');
+		const owner = urlParts[urlParts.length - 2];
+		const repo = urlParts[urlParts.length - 1];
+
+		return fetch(`https://api.github.com/repos/${owner}/${repo}${endpoint}`, {
+			...init,
+			headers: {
+				'Authorization': `token ${token}`,
+				'Content-Type': 'application/json',
+				'Accept': 'application/vnd.github.v3+json',
+				...(init.headers || {})
+			}
+		});
+	}
+
 	async pullLatestChanges(): Promise<boolean> {
+		return this.plugin.gitQueue.enqueue('Pull latest changes', () => this.pullLatestChangesTask());
+	}
+
+	private async pullLatestChangesTask(): Promise<boolean> {
 		try {
-			const adapter = this.plugin.app.vault.adapter;
-			if (!(adapter instanceof FileSystemAdapter)) {
+			if (this.git.getVaultPath() === null) {
 				new Notice('Cannot access vault directory for Git operations');
 				return false;
 			}
 
-			const vaultPath = (adapter as any).basePath || '';
+			// Make sure we're on the main branch
+			await this.git.run(['checkout', this.plugin.settings.mainBranch]);
 			
-			// Temporarily disable file deletion during pull
-			this.plugin.isGitOperationInProgress = true;
+			// Pull latest changes
+			await this.git.run(['pull', '--no-rebase', 'origin', this.plugin.settings.mainBranch]);
 			
-			try {
-				// Make sure we're on the main branch
-				await execAsync(`git checkout ${this.plugin.settings.mainBranch}`, { cwd: vaultPath });
-				
-				// Pull latest changes
-				await execAsync('git pull origin ' + this.plugin.settings.mainBranch, { cwd: vaultPath });
-				
-				new Notice(`✅ Pulled latest changes from ${this.plugin.settings.mainBranch}`);
-				return true;
-			} finally {
-				// Always re-enable file deletion protection
-				this.plugin.isGitOperationInProgress = false;
-			}
+			new Notice(`✅ Pulled latest changes from ${this.plugin.settings.mainBranch}`);
+			return true;
 		} catch (error) {
 			console.error('Failed to pull latest changes:', error);
-			new Notice('Failed to pull latest changes');
+			this.reportError(error, 'Failed to pull latest changes', () => this.pullLatestChanges());
 			return false;
 		}
 	}
 
 	async createNewBranch(branchName: string): Promise<boolean> {
+		return this.plugin.gitQueue.enqueue(`Create branch ${branchName}`, () => this.createNewBranchTask(branchName));
+	}
+
+	private async createNewBranchTask(branchName: string): Promise<boolean> {
 		try {
 			if (!this.plugin.settings.isRepositoryConnected) {
 				new Notice('No repository connected');
 				return false;
 			}
 
-			// Get the vault path
-			const adapter = this.plugin.app.vault.adapter;
-			let vaultPath: string;
-			
-			if (adapter instanceof FileSystemAdapter) {
-				vaultPath = (adapter as any).basePath || '';
-			} else {
+			if (this.git.getVaultPath() === null) {
 				new Notice('Cannot access vault directory');
 				return false;
 			}
 
+			const namingError = this.validateNewBranchName(branchName);
+			if (namingError) {
+				new Notice(`🚫 ${namingError}`);
+				return false;
+			}
+
 			// Create and switch to new branch
-			await execAsync(`git checkout -b "${branchName}"`, { cwd: vaultPath });
+			await this.git.run(['checkout', '-b', branchName]);
 			
 			// Add to available branches list
 			if (!this.plugin.settings.availableBranches.includes(branchName)) {
@@ -429,7 +853,7 @@ export class GitOperations {
 			return true;
 		} catch (error) {
 			console.error('Branch creation failed:', error);
-			new Notice(`Failed to create branch: ${error.message}`);
+			this.reportError(error, 'Failed to create branch');
 			return false;
 		}
 	}
@@ -442,29 +866,24 @@ export class GitOperations {
 			}
 
 			// CRITICAL VALIDATION: Check if branch switch is allowed
-			if (this.plugin.settings.isReadOnlyMode && branchName !== this.plugin.settings.mainBranch) {
-				new Notice(`🚫 Cannot switch to ${branchName} in read-only mode. Only ${this.plugin.settings.mainBranch} is allowed.`);
+			if (this.plugin.settings.isReadOnlyMode && !this.isProtectedBranch(branchName)) {
+				new Notice(`🚫 Cannot switch to ${branchName} in read-only mode. Only protected branches like ${this.plugin.settings.mainBranch} are allowed.`);
 				return false;
 			}
 
-			if (!this.plugin.settings.isReadOnlyMode && branchName === this.plugin.settings.mainBranch) {
-				new Notice(`🚫 Cannot switch to ${this.plugin.settings.mainBranch} in edit mode. Please use read-only mode for ${this.plugin.settings.mainBranch}.`);
+			if (!this.plugin.settings.isReadOnlyMode && this.isProtectedBranch(branchName)) {
+				new Notice(`🚫 Cannot switch to ${branchName} in edit mode. Please use read-only mode for protected branches.`);
 				return false;
 			}
 
-			// Get the vault path
-			const adapter = this.plugin.app.vault.adapter;
-			let vaultPath: string;
-			
-			if (adapter instanceof FileSystemAdapter) {
-				vaultPath = (adapter as any).basePath || '';
-			} else {
+			if (this.git.getVaultPath() === null) {
 				new Notice('Cannot access vault directory');
 				return false;
 			}
 
-			// Switch to the branch
-			await execAsync(`git checkout "${branchName}"`, { cwd: vaultPath });
+			// Switch to the branch, bringing back the notes that were open there
+			await this.plugin.layouts.aroundCheckout(this.plugin.settings.currentBranch, branchName, () =>
+				this.plugin.gitQueue.enqueue(`Switch to ${branchName}`, () => this.git.run(['checkout', branchName])));
 			
 			// Update current branch setting
 			this.plugin.settings.currentBranch = branchName;
@@ -478,7 +897,7 @@ export class GitOperations {
 			return true;
 		} catch (error) {
 			console.error('Branch switch failed:', error);
-			new Notice(`Failed to switch to branch: ${error.message}`);
+			this.reportError(error, 'Failed to switch to branch', () => this.switchToBranch(branchName));
 			return false;
 		}
 	}
@@ -513,12 +932,8 @@ export class GitOperations {
 			console.log('Performing startup repository checks...');
 
 			// Get the vault path
-			const adapter = this.plugin.app.vault.adapter;
-			let vaultPath: string;
-			
-			if (adapter instanceof FileSystemAdapter) {
-				vaultPath = (adapter as any).basePath || '';
-			} else {
+			const vaultPath = this.git.getVaultPath();
+			if (vaultPath === null) {
 				console.log('Cannot access vault directory for startup checks');
 				return;
 			}
@@ -540,7 +955,7 @@ export class GitOperations {
 
 			// Check for uncommitted changes
 			try {
-				const { stdout: statusOutput } = await execAsync('git status --porcelain', { cwd: vaultPath });
+				const { stdout: statusOutput } = await this.git.run(['status', '--porcelain']);
 				if (statusOutput.trim()) {
 					new Notice('⚠️ You have uncommitted changes in your repository');
 				}
@@ -552,27 +967,26 @@ export class GitOperations {
 			await this.validateAndEnforceBranchRules();
 
 			// Check if remote is reachable and fetch updates (non-blocking)
-			this.checkRemoteUpdates(vaultPath);
+			this.checkRemoteUpdates();
 
 		} catch (error) {
 			console.log('Startup checks failed:', error);
 		}
 	}
 
-	async checkRemoteUpdates(vaultPath: string) {
+	async checkRemoteUpdates() {
 		try {
 			// Fetch from remote to check for updates (non-blocking)
 			const token = await this.plugin.getRepositoryToken(this.plugin.settings.repositoryUrl);
 			if (token || this.isPublicRepository(this.plugin.settings.repositoryUrl)) {
 				setTimeout(async () => {
 					try {
-						await execAsync('git fetch origin', { cwd: vaultPath });
+						await this.git.run(['fetch', 'origin']);
 						
 						// Check if current branch is behind
-						const { stdout: behindOutput } = await execAsync(
-							`git rev-list --count HEAD..origin/${this.plugin.settings.currentBranch}`, 
-							{ cwd: vaultPath }
-						);
+						const { stdout: behindOutput } = await this.git.run([
+							'rev-list', '--count', `HEAD..origin/${this.plugin.settings.currentBranch}`
+						]);
 						
 						const behindCount = parseInt(behindOutput.trim()) || 0;
 						if (behindCount > 0) {
@@ -593,32 +1007,30 @@ export class GitOperations {
 		return !!(url && !url.includes('private') && !url.includes('github.com:'));
 	}
 
-	async detectDefaultBranch() {
+	async detectDefaultBranch(): Promise<void> {
+		return this.plugin.gitQueue.enqueue('Detect default branch', () => this.detectDefaultBranchTask());
+	}
+
+	private async detectDefaultBranchTask(): Promise<void> {
 		try {
 			if (!this.plugin.settings.isRepositoryConnected) {
 				return;
 			}
 
-			// Get the vault path
-			const adapter = this.plugin.app.vault.adapter;
-			let vaultPath: string;
-			
-			if (adapter instanceof FileSystemAdapter) {
-				vaultPath = (adapter as any).basePath || '';
-			} else {
+			if (this.git.getVaultPath() === null) {
 				return;
 			}
 
 			// Get current branch
-			const { stdout: currentBranch } = await execAsync('git branch --show-current', { cwd: vaultPath });
+			const { stdout: currentBranch } = await this.git.run(['branch', '--show-current']);
 			const branchName = currentBranch.trim();
 
 			if (branchName) {
 				// If we're on master, switch to main and delete master
 				if (branchName === 'master') {
 					try {
-						await execAsync('git checkout -b main', { cwd: vaultPath });
-						await execAsync('git branch -d master', { cwd: vaultPath });
+						await this.git.run(['checkout', '-b', 'main']);
+						await this.git.run(['branch', '-d', 'master']);
 						this.plugin.settings.currentBranch = 'main';
 						this.plugin.settings.mainBranch = 'main';
 						new Notice('Switched from master to main branch');
@@ -631,13 +1043,13 @@ export class GitOperations {
 					// Properly detect the default branch instead of assuming
 					try {
 						// Try to get the default branch from remote
-						const { stdout: remoteInfo } = await execAsync('git remote show origin', { cwd: vaultPath });
+						const { stdout: remoteInfo } = await this.git.run(['remote', 'show', 'origin']);
 						const defaultMatch = remoteInfo.match(/HEAD branch: (\w+)/);
 						if (defaultMatch) {
 							this.plugin.settings.mainBranch = defaultMatch[1];
 						} else {
 							// Fallback: look for main or master in branch list
-							const { stdout: allBranches } = await execAsync('git branch -r', { cwd: vaultPath });
+							const { stdout: allBranches } = await this.git.run(['branch', '-r']);
 							if (allBranches.includes('origin/main')) {
 								this.plugin.settings.mainBranch = 'main';
 							} else if (allBranches.includes('origin/master')) {
@@ -654,7 +1066,7 @@ export class GitOperations {
 				}
 				
 				// Get all branches
-				const { stdout: allBranches } = await execAsync('git branch -a', { cwd: vaultPath });
+				const { stdout: allBranches } = await this.git.run(['branch', '-a']);
 				const branches = allBranches
 					.split('\n')
 					.map(b => b.replace('*', '').trim())
@@ -717,19 +1129,16 @@ Thumbs.db
 	}
 
 	async cloneRepository(url: string, token: string): Promise<boolean> {
-		// SET FLAG EARLY - before any file operations that might trigger events
-		this.plugin.isGitOperationInProgress = true;
+		return this.plugin.gitQueue.enqueue('Clone repository', () => this.cloneRepositoryTask(url, token));
+	}
 
+	private async cloneRepositoryTask(url: string, token: string): Promise<boolean> {
 		try {
 			new Notice('Cloning repository...');
 
 			// Get the vault path
-			const adapter = this.plugin.app.vault.adapter;
-			let vaultPath: string;
-			
-			if (adapter instanceof FileSystemAdapter) {
-				vaultPath = (adapter as any).basePath || '';
-			} else {
+			const vaultPath = this.git.getVaultPath();
+			if (vaultPath === null) {
 				new Notice('Cannot access vault directory');
 				return false;
 			}
@@ -790,7 +1199,7 @@ Thumbs.db
 				const authenticatedUrl = this.getAuthenticatedUrl(url, token);
 				
 				// Clone into temp directory
-				await execAsync(`git clone "${authenticatedUrl}" "${tempDir}"`, { cwd: vaultPath });
+				await this.git.run(['clone', authenticatedUrl, tempDir]);
 				
 				// Move all files from temp directory to vault root (except .git)
 				const clonedFiles = await fs.promises.readdir(tempDir);
@@ -813,20 +1222,20 @@ Thumbs.db
 				
 				// Set up Git configuration
 				if (this.plugin.settings.userName) {
-					await execAsync(`git config user.name "${this.plugin.settings.userName}"`, { cwd: vaultPath });
+					await this.git.run(['config', 'user.name', this.plugin.settings.userName]);
 				}
 				if (this.plugin.settings.userEmail) {
-					await execAsync(`git config user.email "${this.plugin.settings.userEmail}"`, { cwd: vaultPath });
+					await this.git.run(['config', 'user.email', this.plugin.settings.userEmail]);
 				}
 
 				// Get current branch and ensure it's main
 				try {
-					const { stdout: currentBranch } = await execAsync('git branch --show-current', { cwd: vaultPath });
+					const { stdout: currentBranch } = await this.git.run(['branch', '--show-current']);
 					const branchName = currentBranch.trim();
 					
 					if (branchName === 'master') {
-						await execAsync('git checkout -b main', { cwd: vaultPath });
-						await execAsync('git branch -d master', { cwd: vaultPath });
+						await this.git.run(['checkout', '-b', 'main']);
+						await this.git.run(['branch', '-d', 'master']);
 						new Notice('Migrated from master to main branch');
 					}
 					
@@ -839,7 +1248,7 @@ Thumbs.db
 
 				// Get all branches
 				try {
-					const { stdout: allBranches } = await execAsync('git branch -a', { cwd: vaultPath });
+					const { stdout: allBranches } = await this.git.run(['branch', '-a']);
 					const branches = allBranches
 						.split('\n')
 						.map(b => b.replace('*', '').trim())
@@ -883,46 +1292,43 @@ Thumbs.db
 			console.error('Clone failed:', error);
 			new Notice(`Failed to clone repository: ${error.message}`);
 			return false;
-		} finally {
-			// Always re-enable file deletion protection
-			this.plugin.isGitOperationInProgress = false;
 		}
 	}
 
 	async initializeRepository(url: string, token: string): Promise<boolean> {
+		return this.plugin.gitQueue.enqueue('Initialize repository', () => this.initializeRepositoryTask(url, token));
+	}
+
+	private async initializeRepositoryTask(url: string, token: string): Promise<boolean> {
 		try {
 			new Notice('Initializing Git repository...');
 
 			// Get the vault path
-			const adapter = this.plugin.app.vault.adapter;
-			let vaultPath: string;
-			
-			if (adapter instanceof FileSystemAdapter) {
-				vaultPath = (adapter as any).basePath || '';
-			} else {
+			const vaultPath = this.git.getVaultPath();
+			if (vaultPath === null) {
 				new Notice('Cannot access vault directory');
 				return false;
 			}
 
 			// Initialize git repository
-			await execAsync('git init', { cwd: vaultPath });
+			await this.git.run(['init']);
 			
 			// Set user configuration
 			if (this.plugin.settings.userName) {
-				await execAsync(`git config user.name "${this.plugin.settings.userName}"`, { cwd: vaultPath });
+				await this.git.run(['config', 'user.name', this.plugin.settings.userName]);
 			}
 			if (this.plugin.settings.userEmail) {
-				await execAsync(`git config user.email "${this.plugin.settings.userEmail}"`, { cwd: vaultPath });
+				await this.git.run(['config', 'user.email', this.plugin.settings.userEmail]);
 			}
 
 			// Set default branch name to main
-			await execAsync('git branch -M main', { cwd: vaultPath });
+			await this.git.run(['branch', '-M', 'main']);
 			
 			// Ensure we're on main and remove any master branch if it exists
 			try {
-				await execAsync('git checkout main', { cwd: vaultPath });
+				await this.git.run(['checkout', 'main']);
 				// Try to delete master branch if it exists (suppress error if it doesn't exist)
-				await execAsync('git branch -d master', { cwd: vaultPath }).catch(() => {});
+				await this.git.run(['branch', '-d', 'master']).catch(() => {});
 			} catch (error) {
 				console.log('Branch cleanup completed');
 			}
@@ -931,17 +1337,17 @@ Thumbs.db
 			await this.ensureGitignoreExists(vaultPath);
 
 			// Add all files
-			await execAsync('git add .', { cwd: vaultPath });
+			await this.git.run(['add', '.']);
 			
 			// Initial commit
-			await execAsync('git commit -m "Initial commit from Obsidian Git Collaboration"', { cwd: vaultPath });
+			await this.git.run(['commit', '-m', 'Initial commit from Obsidian Git Collaboration']);
 
 			// Add remote origin
 			const authenticatedUrl = this.getAuthenticatedUrl(url, token);
-			await execAsync(`git remote add origin "${authenticatedUrl}"`, { cwd: vaultPath });
+			await this.git.run(['remote', 'add', 'origin', authenticatedUrl]);
 
 			// Push to remote
-			await execAsync('git push -u origin main', { cwd: vaultPath });
+			await this.git.run(['push', '-u', 'origin', 'main']);
 
 			this.plugin.settings.repositoryUrl = url;
 			await this.plugin.setRepositoryToken(url, token);
@@ -973,30 +1379,1204 @@ Thumbs.db
 		return url;
 	}
 
-	async refreshAvailableBranches(): Promise<void> {
+	// ============================================================================
+	// ERROR RECOVERY
+	// ============================================================================
+
+	/**
+	 * Classify a failure and offer the matching fix. Unrecognised failures fall back
+	 * to a plain Notice when a fallback message is given, otherwise they stay in the console.
+	 */
+	reportError(error: unknown, fallbackMessage?: string, retry?: () => Promise<unknown>): GitCollabError {
+		const classified = classifyGitError(error);
+		if (classified.kind !== 'unknown') {
+			new GitErrorModal(this.plugin.app, this.plugin, classified, retry).open();
+		} else if (fallbackMessage) {
+			new Notice(`${fallbackMessage}: ${classified.message}`);
+		}
+		return classified;
+	}
+
+	async updateRepositoryToken(token: string): Promise<boolean> {
+		const url = this.plugin.settings.repositoryUrl;
+		this.plugin.setRepositoryToken(url, token);
 		try {
-			if (!this.plugin.settings.isRepositoryConnected) {
-				return;
+			// The token is embedded in the origin URL, so git needs the new one too
+			await this.plugin.gitQueue.enqueue('Update remote credentials', () =>
+				this.git.run(['remote', 'set-url', 'origin', this.getAuthenticatedUrl(url, token)]));
+			new Notice('🔑 Token updated for this repository');
+			return true;
+		} catch (error) {
+			console.error('Failed to update remote URL:', error);
+			new Notice(`Failed to update remote credentials: ${classifyGitError(error).message}`);
+			return false;
+		}
+	}
+
+	async pullCurrentBranch(): Promise<boolean> {
+		const branch = this.plugin.settings.currentBranch;
+		try {
+			await this.plugin.gitQueue.enqueue(`Pull ${branch}`, () => this.git.run(['pull', '--no-rebase', 'origin', branch]));
+			new Notice(`📥 Pulled latest changes into ${branch}`);
+			return true;
+		} catch (error) {
+			console.error('Failed to pull current branch:', error);
+			this.reportError(error, `Failed to pull ${branch}`);
+			return false;
+		}
+	}
+
+	async pushWithUpstream(): Promise<boolean> {
+		const branch = this.plugin.settings.currentBranch;
+		try {
+			await this.plugin.gitQueue.enqueue(`Publish ${branch}`, () => this.git.run(['push', '--set-upstream', 'origin', branch]));
+			new Notice(`🚀 Published ${branch} to the remote`);
+			return true;
+		} catch (error) {
+			console.error('Failed to push with upstream:', error);
+			this.reportError(error, `Failed to publish ${branch}`);
+			return false;
+		}
+	}
+
+	async abortMerge(): Promise<boolean> {
+		try {
+			await this.plugin.gitQueue.enqueue('Abort merge', () => this.git.run(['merge', '--abort']));
+			new Notice('↩️ Merge aborted; your branch is back to its previous state');
+			return true;
+		} catch (error) {
+			console.error('Failed to abort merge:', error);
+			new Notice(`Failed to abort merge: ${classifyGitError(error).message}`);
+			return false;
+		}
+	}
+
+	async removeStaleIndexLock(): Promise<boolean> {
+		const vaultPath = this.git.getVaultPath();
+		if (vaultPath === null) {
+			return false;
+		}
+
+		// Only a lock we didn't create can be stale; never remove one while our own work runs
+		if (this.plugin.gitQueue.isBusy()) {
+			new Notice('A git operation is still running. Wait for it to finish and try again.');
+			return false;
+		}
+
+		try {
+			await fs.promises.unlink(path.join(vaultPath, '.git', 'index.lock'));
+			new Notice('🔓 Removed stale index.lock');
+			return true;
+		} catch (error) {
+			if (error.code === 'ENOENT') {
+				return true;
 			}
+			console.error('Failed to remove index.lock:', error);
+			new Notice(`Failed to remove index.lock: ${error.message}`);
+			return false;
+		}
+	}
 
-			const adapter = this.plugin.app.vault.adapter;
-			if (!(adapter instanceof FileSystemAdapter)) {
-				return;
+	// ============================================================================
+	// NOTE HISTORY
+	// ============================================================================
+
+	async getFileHistory(filePath: string, limit = 50): Promise<FileRevision[]> {
+		try {
+			// \x1e separates commits, \x1f separates fields; --name-only adds the path after each header
+			const { stdout } = await this.git.run([
+				'log', '--follow', `-n${limit}`, '--name-only',
+				'--format=%x1e%H%x1f%h%x1f%an%x1f%ae%x1f%aI%x1f%s',
+				'--', filePath
+			]);
+
+			const revisions: FileRevision[] = stdout.split('\x1e').filter(record => record.trim()).map(record => {
+				const [header, ...rest] = record.split('\n');
+				const [hash, shortHash, author, email, date, message] = header.split('\x1f');
+				const revisionPath = rest.map(line => line.trim()).find(line => line) || filePath;
+				return { hash, shortHash, author, email, date, message, path: revisionPath, branch: '' };
+			});
+
+			if (revisions.length > 0) {
+				// name-rev maps each commit onto the nearest branch tip that contains it
+				const { stdout: names } = await this.git.run([
+					'name-rev', '--name-only', '--refs=refs/heads/*', '--refs=refs/remotes/*',
+					...revisions.map(revision => revision.hash)
+				]);
+				names.split('\n').forEach((name, index) => {
+					if (revisions[index] && name && name !== 'undefined') {
+						revisions[index].branch = name.replace(/^remotes\//, '').replace(/[~^].*$/, '');
+					}
+				});
 			}
 
-			const vaultPath = (adapter as any).basePath || '';
+			return revisions;
+		} catch (error) {
+			console.error('Failed to load file history:', error);
+			return [];
+		}
+	}
+
+	async getFileAtRevision(hash: string, filePath: string): Promise<string | null> {
+		try {
+			const { stdout } = await this.git.run(['show', `${hash}:${filePath}`]);
+			return stdout;
+		} catch (error) {
+			console.error('Failed to read file revision:', error);
+			return null;
+		}
+	}
 
-			// Get all local branches
-			const { stdout: allBranches } = await execAsync('git branch', { cwd: vaultPath });
-			const branches = allBranches
-				.split('\n')
-				.map(b => b.replace('*', '').trim())
-				.filter(b => b && b !== 'master'); // Filter out master branch
+	/**
+	 * Overwrite a note with one of its past revisions. Only allowed in edit mode on a
+	 * working branch, so the main branch's protection can't be bypassed this way.
+	 */
+	async restoreFileRevision(filePath: string, revision: FileRevision): Promise<boolean> {
+		if (this.plugin.settings.isReadOnlyMode) {
+			new Notice('🔒 Switch to edit mode on a working branch to restore a revision');
+			return false;
+		}
 
-			this.plugin.settings.availableBranches = [...new Set(branches)];
-			await this.plugin.saveSettings();
+		// Make sure the settings reflect the branch we're really on before writing anything
+		const rulesOk = await this.validateAndEnforceBranchRules();
+		if (!rulesOk || this.plugin.settings.isReadOnlyMode || this.isProtectedBranch(this.plugin.settings.currentBranch)) {
+			new Notice(`🚫 Cannot restore revisions onto ${this.plugin.settings.currentBranch}. Please select a working branch first.`);
+			return false;
+		}
+
+		const content = await this.getFileAtRevision(revision.hash, revision.path);
+		if (content === null) {
+			new Notice('Failed to read that revision');
+			return false;
+		}
+		if (content.includes('\0')) {
+			new Notice('Binary files cannot be restored from history');
+			return false;
+		}
+
+		try {
+			// Queued so the write can't land in the middle of a checkout or pull
+			await this.plugin.gitQueue.enqueue(`Restore ${filePath}`, () => this.plugin.app.vault.adapter.write(filePath, content));
+			new Notice(`⏪ Restored ${filePath} to ${revision.shortHash} on ${this.plugin.settings.currentBranch}`);
+			return true;
 		} catch (error) {
-			console.error('Failed to refresh available branches:', error);
+			console.error('Failed to restore revision:', error);
+			new Notice(`Failed to restore revision: ${error.message}`);
+			return false;
+		}
+	}
+
+	// ============================================================================
+	// READ-ONLY PROTECTION
+	// ============================================================================
+
+	/**
+	 * Put the main branch's working tree back to HEAD for the given paths.
+	 * The changes are stashed rather than thrown away so they can still be moved to a branch.
+	 */
+	async revertOutOfBandChanges(paths: string[]): Promise<RevertedChanges | null> {
+		return this.plugin.gitQueue.enqueue('Revert changes on protected branch', () => this.revertOutOfBandChangesTask(paths));
+	}
+
+	private async revertOutOfBandChangesTask(paths: string[]): Promise<RevertedChanges | null> {
+		try {
+			const files = await this.getChangedFiles(paths);
+			if (files.length === 0) {
+				return null;
+			}
+
+			const changedPaths = files.flatMap(file => file.origPath ? [file.path, file.origPath] : [file.path]);
+			await this.git.run([
+				'stash', 'push', '--include-untracked',
+				'-m', `git-collab: reverted on ${this.plugin.settings.currentBranch} ${new Date().toISOString()}`,
+				'--', ...changedPaths
+			]);
+			const { stdout } = await this.git.run(['rev-parse', 'stash@{0}']);
+			return { stash: stdout.trim(), files };
+		} catch (error) {
+			console.error('Failed to revert out-of-band changes:', error);
+			this.reportError(error, 'Failed to revert changes on the protected branch');
+			return null;
+		}
+	}
+
+	/**
+	 * Re-apply reverted changes to the checked-out branch and drop them from the stash
+	 */
+	async applyRevertedChanges(stash: string): Promise<boolean> {
+		try {
+			const stashRef = await this.findStashRef(stash);
+			if (!stashRef) {
+				new Notice('The reverted changes are no longer available');
+				return false;
+			}
+			await this.plugin.gitQueue.enqueue('Apply reverted changes', () => this.git.run(['stash', 'pop', stashRef]));
+			return true;
+		} catch (error) {
+			console.error('Failed to apply reverted changes:', error);
+			this.reportError(error, 'Failed to apply the reverted changes');
+			return false;
+		}
+	}
+
+	async discardRevertedChanges(stash: string): Promise<boolean> {
+		try {
+			const stashRef = await this.findStashRef(stash);
+			if (stashRef) {
+				await this.plugin.gitQueue.enqueue('Discard reverted changes', () => this.git.run(['stash', 'drop', stashRef]));
+			}
+			return true;
+		} catch (error) {
+			console.error('Failed to discard reverted changes:', error);
+			this.reportError(error, 'Failed to discard the reverted changes');
+			return false;
+		}
+	}
+
+	/**
+	 * stash@{n} for a stash commit; positions shift as other stashes come and go
+	 */
+	private async findStashRef(stash: string): Promise<string | null> {
+		const { stdout } = await this.git.run(['stash', 'list', '--format=%H']);
+		const index = stdout.split('\n').map(line => line.trim()).indexOf(stash);
+		return index === -1 ? null : `stash@{${index}}`;
+	}
+
+	// ============================================================================
+	// PULL REQUEST REVIEW
+	// ============================================================================
+
+	/**
+	 * Files changed by a pull request, or null if they couldn't be loaded
+	 */
+	async getPullRequestFiles(prNumber: number): Promise<PullRequestFile[] | null> {
+		const files = await this.githubFetchAll(`/pulls/${prNumber}/files`, 'Failed to load pull request files');
+		return files && files.map((file: any) => ({
+			path: file.filename,
+			previousPath: file.previous_filename,
+			status: file.status,
+			additions: file.additions,
+			deletions: file.deletions
+		}));
+	}
+
+	/**
+	 * Every page of a GitHub list endpoint, or null (after telling the user) if any page fails
+	 */
+	private async githubFetchAll(endpoint: string, failureMessage: string): Promise<any[] | null> {
+		try {
+			const items: any[] = [];
+			// GitHub caps most lists at 3000 items, 100 per page
+			for (let page = 1; page <= 30; page++) {
+				const separator = endpoint.includes('?') ? '&' : '?';
+				const response = await this.githubFetch(`${endpoint}${separator}per_page=100&page=${page}`);
+				if (!response) {
+					new Notice('GitHub token required for PR management. Please configure in settings.');
+					return null;
+				}
+				if (!response.ok) {
+					this.reportError(classifyHttpError(response.status, await response.json()), failureMessage);
+					return null;
+				}
+
+				const pageItems = await response.json();
+				items.push(...pageItems);
+				if (pageItems.length < 100) {
+					break;
+				}
+			}
+			return items;
+		} catch (error) {
+			console.error(`${failureMessage}:`, error);
+			this.reportError(classifyFetchError(error), failureMessage);
+			return null;
+		}
+	}
+
+	/**
+	 * General discussion on a pull request, oldest first
+	 */
+	async getPullRequestConversation(prNumber: number): Promise<PullRequestComment[] | null> {
+		const comments = await this.githubFetchAll(`/issues/${prNumber}/comments`, 'Failed to load pull request comments');
+		return comments && comments.map((comment: any) => this.toComment(comment));
+	}
+
+	/**
+	 * Line comments on a pull request's files, grouped into threads in the order they were started
+	 */
+	async getReviewThreads(prNumber: number): Promise<ReviewThread[] | null> {
+		const comments = await this.githubFetchAll(`/pulls/${prNumber}/comments`, 'Failed to load review comments');
+		if (!comments) {
+			return null;
+		}
+
+		const threads: Map<number, ReviewThread> = new Map();
+		for (const comment of comments) {
+			const reviewComment: ReviewComment = {
+				...this.toComment(comment),
+				path: comment.path,
+				line: comment.line || null,
+				side: comment.side === 'LEFT' ? 'LEFT' : 'RIGHT'
+			};
+			// GitHub points every reply at the comment that started the thread
+			const thread = comment.in_reply_to_id ? threads.get(comment.in_reply_to_id) : undefined;
+			if (thread) {
+				thread.comments.push(reviewComment);
+			} else {
+				threads.set(comment.id, {
+					path: reviewComment.path,
+					line: reviewComment.line,
+					side: reviewComment.side,
+					comments: [reviewComment]
+				});
+			}
+		}
+		return [...threads.values()];
+	}
+
+	async addPullRequestComment(prNumber: number, body: string): Promise<boolean> {
+		return this.postComment(`/issues/${prNumber}/comments`, { body });
+	}
+
+	/**
+	 * Start a review thread on one line of a file in the pull request's latest commit
+	 */
+	async addLineComment(pr: any, filePath: string, line: number, side: 'LEFT' | 'RIGHT', body: string): Promise<boolean> {
+		return this.postComment(`/pulls/${pr.number}/comments`, { body, commit_id: pr.head.sha, path: filePath, line, side });
+	}
+
+	async replyToReviewThread(prNumber: number, thread: ReviewThread, body: string): Promise<boolean> {
+		return this.postComment(`/pulls/${prNumber}/comments/${thread.comments[0].id}/replies`, { body });
+	}
+
+	private async postComment(endpoint: string, data: Record<string, unknown>): Promise<boolean> {
+		try {
+			const response = await this.githubFetch(endpoint, { method: 'POST', body: JSON.stringify(data) });
+			if (!response) {
+				new Notice('GitHub token required for PR management. Please configure in settings.');
+				return false;
+			}
+			if (!response.ok) {
+				this.reportError(classifyHttpError(response.status, await response.json()), 'Failed to post comment');
+				return false;
+			}
+			new Notice('💬 Comment posted');
+			return true;
+		} catch (error) {
+			console.error('Failed to post comment:', error);
+			this.reportError(classifyFetchError(error), 'Failed to post comment');
+			return false;
+		}
+	}
+
+	/**
+	 * Submit a formal review: approve, request changes, or comment with a summary
+	 */
+	async submitReview(prNumber: number, event: ReviewEvent, body: string): Promise<boolean> {
+		try {
+			const response = await this.githubFetch(`/pulls/${prNumber}/reviews`, {
+				method: 'POST',
+				body: JSON.stringify(body ? { event, body } : { event })
+			});
+			if (!response) {
+				new Notice('GitHub token required for PR management. Please configure in settings.');
+				return false;
+			}
+			if (!response.ok) {
+				this.reportError(classifyHttpError(response.status, await response.json()), 'Failed to submit review');
+				return false;
+			}
+			new Notice(event === 'APPROVE' ? '✅ Pull request approved' : event === 'REQUEST_CHANGES' ? '✋ Changes requested' : '💬 Review submitted');
+			return true;
+		} catch (error) {
+			console.error('Failed to submit review:', error);
+			this.reportError(classifyFetchError(error), 'Failed to submit review');
+			return false;
+		}
+	}
+
+	/**
+	 * Where a pull request's reviews stand, counting only each reviewer's latest verdict
+	 */
+	async getReviewSummary(pr: any): Promise<ReviewSummary | null> {
+		const reviews = await this.githubFetchAll(`/pulls/${pr.number}/reviews`, 'Failed to load reviews');
+		if (!reviews) {
+			return null;
+		}
+
+		// Reviews come oldest first; plain comments don't change a reviewer's verdict
+		const verdicts: Map<string, string> = new Map();
+		reviews.forEach((review: any) => {
+			if (review.user && ['APPROVED', 'CHANGES_REQUESTED', 'DISMISSED'].includes(review.state)) {
+				verdicts.set(review.user.login, review.state);
+			}
+		});
+		const reviewersWith = (state: string) => [...verdicts.entries()].filter(([, verdict]) => verdict === state).map(([login]) => login);
+
+		return {
+			approvedBy: reviewersWith('APPROVED'),
+			changesRequestedBy: reviewersWith('CHANGES_REQUESTED'),
+			requiredApprovals: await this.getRequiredApprovals(pr.base.ref)
+		};
+	}
+
+	/**
+	 * Approvals needed to merge into a branch: GitHub's branch protection when we're allowed
+	 * to read it, otherwise the plugin setting
+	 */
+	private async getRequiredApprovals(branch: string): Promise<number> {
+		if (!this.requiredApprovalsByBranch.has(branch)) {
+			let protectionCount: number | null = null;
+			try {
+				// 404 when the branch isn't protected, 403 without admin rights; both fall back to the setting
+				const response = await this.githubFetch(`/branches/${encodeURIComponent(branch)}/protection/required_pull_request_reviews`);
+				if (response && response.ok) {
+					const reviews = await response.json();
+					protectionCount = reviews.required_approving_review_count || 0;
+				}
+			} catch (error) {
+				console.log('Branch protection unavailable:', error);
+			}
+			this.requiredApprovalsByBranch.set(branch, protectionCount);
+		}
+
+		const protectionCount = this.requiredApprovalsByBranch.get(branch);
+		return typeof protectionCount === 'number' ? protectionCount : this.plugin.settings.requiredApprovals;
+	}
+
+	/**
+	 * CI results for a pull request's latest commit: GitHub Actions check runs and
+	 * commit statuses from other services, together with the PR's current detail
+	 */
+	async getPullRequestChecks(prNumber: number): Promise<PullRequestChecks | null> {
+		try {
+			const prResponse = await this.githubFetch(`/pulls/${prNumber}`);
+			if (!prResponse || !prResponse.ok) {
+				return null;
+			}
+			const pullRequest = await prResponse.json();
+			const sha = pullRequest.head.sha;
+
+			const checks: CheckResult[] = [];
+			const statusResponse = await this.githubFetch(`/commits/${sha}/status`);
+			if (statusResponse && statusResponse.ok) {
+				const combined = await statusResponse.json();
+				combined.statuses.forEach((status: any) => checks.push({
+					name: status.context,
+					state: status.state === 'success' ? 'success' : status.state === 'pending' ? 'pending' : 'failure',
+					description: status.description || '',
+					detailsUrl: status.target_url || null,
+					required: false
+				}));
+			}
+
+			const runsResponse = await this.githubFetch(`/commits/${sha}/check-runs?per_page=100`);
+			if (runsResponse && runsResponse.ok) {
+				const runs = await runsResponse.json();
+				runs.check_runs.forEach((run: any) => checks.push({
+					name: run.name,
+					state: this.getCheckRunState(run),
+					description: (run.output && run.output.title) || run.conclusion || run.status,
+					detailsUrl: run.details_url || run.html_url || null,
+					required: false
+				}));
+			}
+
+			// Without access to branch protection nothing is known to be required, so nothing blocks the merge
+			const requiredChecks = await this.getRequiredChecks(pullRequest.base.ref);
+			if (requiredChecks) {
+				checks.forEach(check => check.required = requiredChecks.includes(check.name));
+				// Required checks that haven't reported yet still hold up the merge
+				requiredChecks
+					.filter(name => !checks.some(check => check.name === name))
+					.forEach(name => checks.push({ name, state: 'pending', description: 'Expected - waiting for status to be reported', detailsUrl: null, required: true }));
+			}
+
+			return { pullRequest, checks, protectionKnown: requiredChecks !== null };
+		} catch (error) {
+			console.error('Failed to load checks:', error);
+			return null;
+		}
+	}
+
+	private getCheckRunState(run: any): CheckResult['state'] {
+		if (run.status !== 'completed') {
+			return 'pending';
+		}
+		if (run.conclusion === 'success') {
+			return 'success';
+		}
+		if (run.conclusion === 'neutral' || run.conclusion === 'skipped') {
+			return 'neutral';
+		}
+		// failure, timed_out, cancelled, action_required, stale, startup_failure
+		return 'failure';
+	}
+
+	private async getRequiredChecks(branch: string): Promise<string[] | null> {
+		if (!this.requiredChecksByBranch.has(branch)) {
+			let contexts: string[] | null = null;
+			try {
+				const response = await this.githubFetch(`/branches/${encodeURIComponent(branch)}/protection/required_status_checks`);
+				if (response && response.ok) {
+					const required = await response.json();
+					contexts = required.checks ? required.checks.map((check: any) => check.context) : required.contexts || [];
+				}
+			} catch (error) {
+				console.log('Branch protection unavailable:', error);
+			}
+			this.requiredChecksByBranch.set(branch, contexts);
+		}
+		return this.requiredChecksByBranch.get(branch) || null;
+	}
+
+	private toComment(comment: any): PullRequestComment {
+		return {
+			id: comment.id,
+			author: comment.user ? comment.user.login : 'unknown',
+			body: comment.body || '',
+			createdAt: comment.created_at,
+			htmlUrl: comment.html_url
+		};
+	}
+
+	/**
+	 * The commit a pull request's changes are measured from (what GitHub's "Files changed" tab compares against).
+	 * Falls back to the base branch tip if GitHub can't say.
+	 */
+	async getPullRequestMergeBase(pr: any): Promise<string> {
+		try {
+			const response = await this.githubFetch(`/compare/${pr.base.sha}...${pr.head.sha}`);
+			if (response && response.ok) {
+				const comparison = await response.json();
+				if (comparison.merge_base_commit) {
+					return comparison.merge_base_commit.sha;
+				}
+			}
+		} catch (error) {
+			console.error('Failed to find pull request merge base:', error);
+		}
+		return pr.base.sha;
+	}
+
+	/**
+	 * Both sides of one file in a pull request, in the same shape as a local diff,
+	 * or null (after telling the user) if either side can't be read
+	 */
+	async getPullRequestFileDiff(prNumber: number, mergeBase: string, file: PullRequestFile): Promise<FileDiff | null> {
+		let oldBytes: Uint8Array | null;
+		let newBytes: Uint8Array | null;
+		try {
+			// refs/pull/N/head also reaches commits on forks
+			oldBytes = file.status === 'added' ? null : await this.fetchFileAtRef(file.previousPath || file.path, mergeBase);
+			newBytes = file.status === 'removed' ? null : await this.fetchFileAtRef(file.path, `refs/pull/${prNumber}/head`);
+		} catch (error) {
+			console.error(`Failed to load ${file.path}:`, error);
+			this.reportError(classifyFetchError(error), `Failed to load ${file.path}`);
+			return null;
+		}
+
+		// Same heuristic git uses: a NUL byte near the start means binary
+		const binary = [oldBytes, newBytes].some(bytes => bytes !== null && bytes.subarray(0, 8000).includes(0));
+		const decoder = new TextDecoder();
+
+		return {
+			path: file.path,
+			binary,
+			oldText: binary || oldBytes === null ? null : decoder.decode(oldBytes),
+			newText: binary || newBytes === null ? null : decoder.decode(newBytes),
+			oldSize: oldBytes ? oldBytes.length : null,
+			newSize: newBytes ? newBytes.length : null
+		};
+	}
+
+	/**
+	 * A file's bytes at a ref, or null if it doesn't exist there; throws on any other failure
+	 */
+	private async fetchFileAtRef(filePath: string, ref: string): Promise<Uint8Array | null> {
+		const encodedPath = filePath.split('/').map(encodeURIComponent).join('/');
+		const response = await this.githubFetch(`/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`, {
+			headers: { 'Accept': 'application/vnd.github.raw' }
+		});
+		if (!response) {
+			throw new GitCollabError('auth', 'GitHub token required for PR management. Please configure in settings.');
+		}
+		if (response.status === 404) {
+			return null;
+		}
+		if (!response.ok) {
+			throw classifyHttpError(response.status, await response.json().catch(() => undefined));
+		}
+		return new Uint8Array(await response.arrayBuffer());
+	}
+
+	// ============================================================================
+	// BLAME
+	// ============================================================================
+
+	/**
+	 * Line-by-line authorship of a file's working copy, indexed by line number - 1
+	 */
+	async getBlame(filePath: string): Promise<BlameLine[]> {
+		try {
+			const { stdout } = await this.git.run(['blame', '--porcelain', '--', filePath]);
+			const commits: Map<string, BlameLine> = new Map();
+			const lines: BlameLine[] = [];
+			let current: BlameLine | null = null;
+
+			// Porcelain format: a "<sha> <orig> <final> [<count>]" header, commit details the
+			// first time a commit appears, then the line content prefixed with a tab
+			for (const line of stdout.split('\n')) {
+				if (line.startsWith('\t')) {
+					if (current) {
+						lines.push(current);
+					}
+					continue;
+				}
+
+				const header = line.match(/^([0-9a-f]{40}) \d+ \d+/);
+				if (header) {
+					const hash = header[1];
+					current = commits.get(hash) || { hash, author: '', authorTime: 0, summary: '', committed: !/^0+$/.test(hash) };
+					commits.set(hash, current);
+				} else if (current && line.startsWith('author ')) {
+					current.author = line.substring(7);
+				} else if (current && line.startsWith('author-time ')) {
+					current.authorTime = parseInt(line.substring(12)) || 0;
+				} else if (current && line.startsWith('summary ')) {
+					current.summary = line.substring(8);
+				}
+			}
+
+			return lines;
+		} catch (error) {
+			// Untracked files have no blame; that's expected
+			console.log('Blame unavailable:', error);
+			return [];
+		}
+	}
+
+	/**
+	 * Find the pull request that introduced a commit, or null when there isn't one
+	 */
+	async getPullRequestForCommit(hash: string): Promise<PullRequestRef | null> {
+		const cached = this.pullRequestsByCommit.get(hash);
+		if (cached !== undefined) {
+			return cached;
+		}
+
+		try {
+			const response = await this.githubFetch(`/commits/${hash}/pulls`);
+			if (!response || !response.ok) {
+				// Don't cache failures; the token or network may come back
+				return null;
+			}
+
+			const pulls = await response.json();
+			// Prefer a merged PR over ones that merely contain the commit
+			const pr = pulls.find((pull: any) => pull.merged_at) || pulls[0];
+			const ref = pr ? { number: pr.number, title: pr.title, html_url: pr.html_url } : null;
+			this.pullRequestsByCommit.set(hash, ref);
+			return ref;
+		} catch (error) {
+			console.error('Failed to look up pull request for commit:', error);
+			return null;
+		}
+	}
+
+	getCommitUrl(hash: string): string {
+		const repositoryUrl = this.plugin.normalizeRepositoryUrl(this.plugin.settings.repositoryUrl);
+		return `${repositoryUrl.replace(/\.git$/, '')}/commit/${hash}`;
+	}
+
+	// ============================================================================
+	// MERGE CONFLICT RESOLUTION
+	// ============================================================================
+
+	async isMergeInProgress(): Promise<boolean> {
+		return this.git.succeeds(['rev-parse', '-q', '--verify', 'MERGE_HEAD']);
+	}
+
+	async getConflictedFiles(): Promise<string[]> {
+		try {
+			const { stdout } = await this.git.run(['diff', '--name-only', '--diff-filter=U', '-z']);
+			return stdout.split('\0').filter(filePath => filePath);
+		} catch (error) {
+			console.error('Failed to list conflicted files:', error);
+			return [];
+		}
+	}
+
+	/**
+	 * Read the base (stage 1), ours (stage 2) and theirs (stage 3) blobs of a conflicted path.
+	 * A missing stage (e.g. the file was deleted on one side) comes back as null.
+	 */
+	async getMergeVersions(filePath: string): Promise<MergeVersions> {
+		const readStage = async (stage: number): Promise<string | null> => {
+			try {
+				const { stdout } = await this.git.run(['show', `:${stage}:${filePath}`]);
+				return stdout;
+			} catch (error) {
+				return null;
+			}
+		};
+
+		const [base, ours, theirs] = await Promise.all([readStage(1), readStage(2), readStage(3)]);
+		return { base, ours, theirs };
+	}
+
+	/**
+	 * Produce diff3-style conflict text from the three versions without touching the working tree
+	 */
+	async mergeWithMarkers(versions: MergeVersions): Promise<string> {
+		const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-collab-merge-'));
+
+		try {
+			const files = ['ours', 'base', 'theirs'].map(name => path.join(tempDir, name));
+			await fs.promises.writeFile(files[0], versions.ours || '');
+			await fs.promises.writeFile(files[1], versions.base || '');
+			await fs.promises.writeFile(files[2], versions.theirs || '');
+
+			try {
+				const { stdout } = await this.git.run([
+					'merge-file', '-p', '--diff3', `--marker-size=${CONFLICT_MARKER_SIZE}`, '-L', 'ours', '-L', 'base', '-L', 'theirs', ...files
+				], { cwd: tempDir });
+				return stdout;
+			} catch (error) {
+				// merge-file exits with the number of conflicts, so a positive code still carries the result
+				if (error instanceof GitCommandError && error.exitCode !== null && error.exitCode > 0) {
+					return error.stdout;
+				}
+				throw error;
+			}
+		} finally {
+			await fs.promises.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+		}
+	}
+
+	/**
+	 * Write the chosen resolution for a text file and stage it
+	 */
+	async resolveConflict(filePath: string, content: string): Promise<boolean> {
+		try {
+			await this.plugin.gitQueue.enqueue(`Resolve ${filePath}`, async () => {
+				await this.plugin.app.vault.adapter.write(filePath, content);
+				await this.git.run(['add', '--', filePath]);
+			});
+			return true;
+		} catch (error) {
+			console.error('Failed to resolve conflict:', error);
+			this.reportError(error, `Failed to resolve ${filePath}`);
+			return false;
+		}
+	}
+
+	/**
+	 * Take one side of a conflicted file as-is; used for binary files and modify/delete conflicts
+	 */
+	async resolveConflictWithSide(filePath: string, side: 'ours' | 'theirs', sideDeleted: boolean): Promise<boolean> {
+		try {
+			await this.plugin.gitQueue.enqueue(`Resolve ${filePath}`, async () => {
+				if (sideDeleted) {
+					await this.git.run(['rm', '--', filePath]);
+					return;
+				}
+				await this.git.run(['checkout', `--${side}`, '--', filePath]);
+				await this.git.run(['add', '--', filePath]);
+			});
+			return true;
+		} catch (error) {
+			console.error('Failed to resolve conflict:', error);
+			this.reportError(error, `Failed to resolve ${filePath}`);
+			return false;
+		}
+	}
+
+	async completeMerge(): Promise<boolean> {
+		try {
+			await this.plugin.gitQueue.enqueue('Complete merge', () => this.git.run(['commit', '--no-edit']));
+			new Notice('✅ Merge completed');
+			return true;
+		} catch (error) {
+			console.error('Failed to complete merge:', error);
+			this.reportError(error, 'Failed to complete merge');
+			return false;
+		}
+	}
+
+	async refreshAvailableBranches(): Promise<void> {
+		try {
+			if (!this.plugin.settings.isRepositoryConnected) {
+				return;
+			}
+
+			if (this.git.getVaultPath() === null) {
+				return;
+			}
+
+			// Get all local branches
+			const { stdout: allBranches } = await this.git.run(['branch']);
+			const branches = allBranches
+				.split('\n')
+				.map(b => b.replace('*', '').trim())
+				.filter(b => b && b !== 'master'); // Filter out master branch
+
+			this.plugin.settings.availableBranches = [...new Set(branches)];
+			await this.plugin.saveSettings();
+		} catch (error) {
+			console.error('Failed to refresh available branches:', error);
+		}
+	}
+
+	/**
+	 * Branches pushed to origin that have no local branch yet, newest first.
+	 * Fetches first so teammates' new branches show up; offline we list what we already know.
+	 */
+	async getRemoteOnlyBranches(): Promise<RemoteBranch[]> {
+		try {
+			if (!this.plugin.settings.isRepositoryConnected || this.git.getVaultPath() === null) {
+				return [];
+			}
+
+			try {
+				await this.plugin.gitQueue.enqueue('Fetch remote branches', () => this.git.run(['fetch', '--prune', 'origin']));
+			} catch (error) {
+				console.log('Fetch failed, using cached remote branches:', error);
+			}
+
+			const { stdout: localOutput } = await this.git.run(['for-each-ref', '--format=%(refname:short)', 'refs/heads']);
+			const localBranches = new Set(localOutput.split('\n').map(b => b.trim()).filter(b => b));
+
+			const { stdout } = await this.git.run([
+				'for-each-ref',
+				'--sort=-committerdate',
+				'--format=%(refname:short)%1f%(authorname)%1f%(authordate:iso-strict)',
+				'refs/remotes/origin'
+			]);
+
+			return stdout
+				.split('\n')
+				.filter(line => line.trim())
+				.map(line => {
+					const [ref, author, date] = line.split('\x1f');
+					return { name: ref.replace(/^origin\//, ''), author, date };
+				})
+				// origin/HEAD is an alias; protected branches are listed too, to be viewed in read-only mode
+				.filter(branch => branch.name !== 'HEAD' && branch.name !== 'origin' && !localBranches.has(branch.name));
+		} catch (error) {
+			console.error('Failed to list remote branches:', error);
+			return [];
+		}
+	}
+
+	/**
+	 * Create a local branch tracking origin/<branchName> and add it to the branch list
+	 */
+	async checkoutRemoteBranch(branchName: string): Promise<boolean> {
+		return this.plugin.layouts.aroundCheckout(this.plugin.settings.currentBranch, branchName, () =>
+			this.plugin.gitQueue.enqueue(`Check out ${branchName}`, () => this.checkoutRemoteBranchTask(branchName)));
+	}
+
+	private async checkoutRemoteBranchTask(branchName: string): Promise<boolean> {
+		try {
+			if (!this.plugin.settings.isRepositoryConnected) {
+				new Notice('No repository connected');
+				return false;
+			}
+
+			if (!this.plugin.settings.isReadOnlyMode && this.isProtectedBranch(branchName)) {
+				new Notice(`🚫 Cannot check out ${branchName} in edit mode. Please use read-only mode for protected branches.`);
+				return false;
+			}
+
+			if (this.git.getVaultPath() === null) {
+				new Notice('Cannot access vault directory');
+				return false;
+			}
+
+			await this.git.run(['checkout', '-b', branchName, '--track', `origin/${branchName}`]);
+
+			if (!this.plugin.settings.availableBranches.includes(branchName)) {
+				this.plugin.settings.availableBranches.push(branchName);
+			}
+			this.plugin.settings.currentBranch = branchName;
+			await this.plugin.saveSettings();
+			this.plugin.readonlyOps.updateStatusBar();
+
+			new Notice(`📥 Checked out "${branchName}" from GitHub`);
+			return true;
+		} catch (error) {
+			console.error('Remote branch checkout failed:', error);
+			this.reportError(error, 'Failed to check out remote branch');
+			return false;
+		}
+	}
+
+	/**
+	 * Rename the checked-out branch locally and on GitHub (push the new name, delete the old one)
+	 */
+	async renameCurrentBranch(newName: string): Promise<BranchRename | null> {
+		return this.plugin.gitQueue.enqueue(`Rename branch to ${newName}`, () => this.renameCurrentBranchTask(newName));
+	}
+
+	private async renameCurrentBranchTask(newName: string): Promise<BranchRename | null> {
+		try {
+			if (!this.plugin.settings.isRepositoryConnected) {
+				new Notice('No repository connected');
+				return null;
+			}
+
+			const { stdout: currentGitBranch } = await this.git.run(['branch', '--show-current']);
+			const oldName = currentGitBranch.trim();
+			if (!oldName) {
+				this.reportError(new DetachedHeadError());
+				return null;
+			}
+			if (this.isProtectedBranch(oldName)) {
+				new Notice(`🚫 Cannot rename protected branch ${oldName}`);
+				return null;
+			}
+
+			const namingError = this.validateNewBranchName(newName);
+			if (namingError) {
+				new Notice(`🚫 ${namingError}`);
+				return null;
+			}
+
+			// Look up the PR before the old branch disappears from GitHub
+			let closedPullRequest: any | null = null;
+			const onRemote = await this.git.succeeds(['rev-parse', '--verify', '--quiet', `refs/remotes/origin/${oldName}`]);
+			if (onRemote) {
+				const response = await this.githubFetch('/pulls?state=open&per_page=100');
+				if (response && response.ok) {
+					const pulls = await response.json();
+					closedPullRequest = pulls.find((pr: any) => pr.head && pr.head.ref === oldName) || null;
+				}
+			}
+
+			await this.git.run(['branch', '-m', oldName, newName]);
+			await this.plugin.layouts.renameBranch(oldName, newName);
+
+			// Keep every setting that names the branch in step, even if the push below fails
+			this.plugin.settings.currentBranch = newName;
+			if (this.plugin.settings.lastWorkingBranch === oldName) {
+				this.plugin.settings.lastWorkingBranch = newName;
+			}
+			this.plugin.settings.availableBranches = [...new Set(
+				this.plugin.settings.availableBranches.map((branch: string) => branch === oldName ? newName : branch)
+			)];
+			if (!this.plugin.settings.availableBranches.includes(newName)) {
+				this.plugin.settings.availableBranches.push(newName);
+			}
+			const proposals = this.plugin.settings.editProposals;
+			if (proposals[oldName]) {
+				proposals[newName] = proposals[oldName];
+				delete proposals[oldName];
+			}
+			await this.plugin.saveSettings();
+			this.plugin.readonlyOps.updateStatusBar();
+
+			if (onRemote) {
+				await this.git.run(['push', '-u', 'origin', newName]);
+				await this.git.run(['push', 'origin', '--delete', oldName]);
+			}
+
+			new Notice(`✏️ Renamed branch "${oldName}" to "${newName}"`);
+			return { oldName, newName, closedPullRequest };
+		} catch (error) {
+			console.error('Branch rename failed:', error);
+			this.reportError(error, 'Failed to rename branch');
+			return null;
+		}
+	}
+
+	// ============================================================================
+	// BRANCH DETAILS AND CLEANUP
+	// ============================================================================
+
+	/**
+	 * Branches whose work is already in the main branch.
+	 * PRs are merged on GitHub, so origin's main is the reference when we have it.
+	 */
+	async getMergedBranches(): Promise<MergedBranches> {
+		return this.plugin.gitQueue.enqueue('List merged branches', () => this.getMergedBranchesTask());
+	}
+
+	private async getMergedBranchesTask(): Promise<MergedBranches> {
+		const mainBranch = this.plugin.settings.mainBranch;
+		try {
+			const target = await this.getMainReference();
+
+			const list = async (refs: string) => {
+				const { stdout } = await this.git.run(['for-each-ref', `--merged=${target}`, '--format=%(refname:short)', refs]);
+				return stdout.split('\n').map(b => b.trim()).filter(b => b);
+			};
+
+			const local = (await list('refs/heads')).filter(b => b !== mainBranch);
+			const remote = (await list('refs/remotes/origin'))
+				.map(b => b.replace(/^origin\//, ''))
+				.filter(b => b !== 'HEAD' && b !== 'origin' && b !== mainBranch);
+			return { local, remote };
+		} catch (error) {
+			console.error('Failed to list merged branches:', error);
+			return { local: [], remote: [] };
+		}
+	}
+
+	/**
+	 * origin's copy of the main branch when we have one, since that's where PRs land
+	 */
+	private async getMainReference(): Promise<string> {
+		const mainBranch = this.plugin.settings.mainBranch;
+		return await this.git.succeeds(['rev-parse', '--verify', '--quiet', `refs/remotes/origin/${mainBranch}`])
+			? `origin/${mainBranch}`
+			: mainBranch;
+	}
+
+	/**
+	 * Commits on the left and right side of `left...right`
+	 */
+	private async countDivergence(left: string, right: string): Promise<[number, number]> {
+		const { stdout } = await this.git.run(['rev-list', '--left-right', '--count', `${left}...${right}`]);
+		const [leftCount, rightCount] = stdout.trim().split(/\s+/).map(count => parseInt(count) || 0);
+		return [leftCount || 0, rightCount || 0];
+	}
+
+	/**
+	 * How each local branch compares to main and to its upstream, plus its latest commit
+	 */
+	async getBranchDetails(): Promise<Record<string, BranchDetails>> {
+		return this.plugin.gitQueue.enqueue('Read branch details', () => this.getBranchDetailsTask());
+	}
+
+	private async getBranchDetailsTask(): Promise<Record<string, BranchDetails>> {
+		const details: Record<string, BranchDetails> = {};
+		try {
+			const mainReference = await this.getMainReference();
+			const { stdout } = await this.git.run([
+				'for-each-ref',
+				'--format=%(refname:short)%1f%(upstream:short)%1f%(contents:subject)%1f%(committerdate:iso-strict)',
+				'refs/heads'
+			]);
+
+			for (const line of stdout.split('\n').filter(line => line.trim())) {
+				const [branch, upstream, subject, date] = line.split('\x1f');
+				const [behindMain, aheadOfMain] = await this.countDivergence(mainReference, branch);
+
+				// The upstream can be configured but gone (deleted on GitHub)
+				let upstreamRef: string | null = null;
+				let aheadOfUpstream = 0;
+				let behindUpstream = 0;
+				if (upstream && await this.git.succeeds(['rev-parse', '--verify', '--quiet', upstream])) {
+					upstreamRef = upstream;
+					[behindUpstream, aheadOfUpstream] = await this.countDivergence(upstream, branch);
+				}
+
+				details[branch] = {
+					aheadOfMain,
+					behindMain,
+					upstream: upstreamRef,
+					aheadOfUpstream,
+					behindUpstream,
+					lastCommitMessage: subject,
+					lastCommitDate: date
+				};
+			}
+		} catch (error) {
+			console.error('Failed to read branch details:', error);
+		}
+		return details;
+	}
+
+	/**
+	 * Number of commits on a local branch that exist nowhere on origin
+	 */
+	async countUnpushedCommits(branchName: string): Promise<number> {
+		const { stdout } = await this.git.run(['rev-list', '--count', `refs/heads/${branchName}`, '--not', '--remotes=origin']);
+		return parseInt(stdout.trim()) || 0;
+	}
+
+	/**
+	 * Delete branches locally and, optionally, on GitHub.
+	 * Never touches the main branch or the checked-out branch, and keeps any local
+	 * branch holding commits that were never pushed so work can't be lost.
+	 */
+	async deleteBranches(branchNames: string[], deleteRemote: boolean): Promise<string[]> {
+		return this.plugin.gitQueue.enqueue(`Delete ${branchNames.length} branch(es)`, () => this.deleteBranchesTask(branchNames, deleteRemote));
+	}
+
+	private async deleteBranchesTask(branchNames: string[], deleteRemote: boolean): Promise<string[]> {
+		const deleted: string[] = [];
+		const skipped: string[] = [];
+
+		try {
+			if (!this.plugin.settings.isRepositoryConnected) {
+				new Notice('No repository connected');
+				return deleted;
+			}
+
+			const { stdout: headOutput } = await this.git.run(['branch', '--show-current']);
+			const checkedOut = headOutput.trim();
+
+			for (const branchName of branchNames) {
+				if (this.isProtectedBranch(branchName)) {
+					skipped.push(`${branchName} (protected)`);
+					continue;
+				}
+				if (branchName === checkedOut) {
+					skipped.push(`${branchName} (in use)`);
+					continue;
+				}
+
+				// One branch failing doesn't stop the rest, and a branch already gone locally still counts
+				let removed = false;
+				try {
+					const hasLocal = await this.git.succeeds(['rev-parse', '--verify', '--quiet', `refs/heads/${branchName}`]);
+					if (hasLocal) {
+						const unpushed = await this.countUnpushedCommits(branchName);
+						if (unpushed > 0) {
+							skipped.push(`${branchName} (${unpushed} unpushed commit(s))`);
+							continue;
+						}
+						// Safe to force: every commit on the branch is on origin
+						await this.git.run(['branch', '-D', branchName]);
+						removed = true;
+					} else if (!deleteRemote) {
+						skipped.push(`${branchName} (only on GitHub)`);
+						continue;
+					}
+
+					if (deleteRemote && await this.git.succeeds(['rev-parse', '--verify', '--quiet', `refs/remotes/origin/${branchName}`])) {
+						await this.git.run(['push', 'origin', '--delete', branchName]);
+						removed = true;
+					}
+				} catch (error) {
+					console.error(`Failed to delete ${branchName}:`, error);
+					this.reportError(error, removed ? `Deleted ${branchName} here, but not on GitHub` : `Failed to delete ${branchName}`);
+				}
+
+				if (removed) {
+					deleted.push(branchName);
+				}
+			}
+		} catch (error) {
+			console.error('Branch deletion failed:', error);
+			this.reportError(error, 'Failed to delete branch');
+		}
+
+		if (deleted.length > 0) {
+			await this.plugin.layouts.forgetBranches(deleted);
+			this.plugin.settings.availableBranches = this.plugin.settings.availableBranches.filter((b: string) => !deleted.includes(b));
+			deleted.forEach(branchName => delete this.plugin.settings.editProposals[branchName]);
+			if (deleted.includes(this.plugin.settings.lastWorkingBranch)) {
+				this.plugin.settings.lastWorkingBranch = '';
+			}
+			await this.plugin.saveSettings();
+			new Notice(`🗑️ Deleted ${deleted.length} branch(es): ${deleted.join(', ')}`);
+		}
+		if (skipped.length > 0) {
+			new Notice(`⚠️ Kept ${skipped.length} branch(es): ${skipped.join(', ')}`, 8000);
 		}
+		return deleted;
 	}
 }
\ No newline at end of file
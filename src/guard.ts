@@ -0,0 +1,76 @@
+import { TAbstractFile } from 'obsidian';
+import { RevertedChangesModal } from './modals';
+
+// Let bursts of changes (sync tools, bulk renames) settle into one revert
+const REVERT_DELAY = 1000;
+
+/**
+ * ReadOnlyGuard - Watches vault writes while read-only mode is on
+ * Changes made by other plugins, sync tools or the file explorer are reverted to HEAD,
+ * with the option to carry them over to a new working branch
+ */
+export class ReadOnlyGuard {
+	private plugin: any;
+	private pendingPaths: Set<string> = new Set();
+	private timer: number | null = null;
+
+	constructor(plugin: any) {
+		this.plugin = plugin;
+	}
+
+	onModify(file: TAbstractFile) {
+		this.track(file.path);
+	}
+
+	onDelete(file: TAbstractFile) {
+		this.track(file.path);
+	}
+
+	onRename(file: TAbstractFile, oldPath: string) {
+		this.track(file.path, oldPath);
+	}
+
+	cancel() {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+			this.timer = null;
+		}
+		this.pendingPaths.clear();
+	}
+
+	private track(...paths: string[]) {
+		// Files written by our own git work are expected. Their events can arrive after the work
+		// finishes; those files match HEAD, so the revert finds nothing to undo for them
+		if (!this.plugin.settings.isReadOnlyMode || !this.plugin.settings.isRepositoryConnected || this.plugin.gitQueue.isBusy()) {
+			return;
+		}
+
+		paths
+			.filter(path => this.plugin.readonlyOps.getNoteProtection(path) !== 'editable')
+			.forEach(path => this.pendingPaths.add(path));
+		if (this.pendingPaths.size === 0) {
+			return;
+		}
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+		}
+		this.timer = window.setTimeout(() => {
+			this.timer = null;
+			this.flush();
+		}, REVERT_DELAY);
+	}
+
+	private async flush() {
+		const paths = [...this.pendingPaths];
+		this.pendingPaths.clear();
+		if (paths.length === 0 || !this.plugin.settings.isReadOnlyMode) {
+			return;
+		}
+
+		// Paths that match HEAD again (e.g. touched by a pull) come back empty and need nothing
+		const reverted = await this.plugin.gitOps.revertOutOfBandChanges(paths);
+		if (reverted) {
+			new RevertedChangesModal(this.plugin.app, this.plugin, reverted).open();
+		}
+	}
+}
@@ -0,0 +1,255 @@
+import { App, ItemView, WorkspaceLeaf, Modal, MarkdownRenderer, Component, TFile } from 'obsidian';
+import { FileRevision } from './git';
+import { renderProseDiff } from './diff';
+
+export const VIEW_TYPE_NOTE_HISTORY = 'git-collab-note-history';
+
+/**
+ * NoteHistoryView - Sidebar listing the commits that touched the active note
+ * Lets the user open, compare and restore past revisions
+ */
+export class NoteHistoryView extends ItemView {
+	plugin: any;
+	file: TFile | null = null;
+	revisions: FileRevision[] = [];
+	// Up to two revisions picked for comparison
+	selected: FileRevision[] = [];
+
+	constructor(leaf: WorkspaceLeaf, plugin: any) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_NOTE_HISTORY;
+	}
+
+	getDisplayText(): string {
+		return 'Note History';
+	}
+
+	getIcon(): string {
+		return 'history';
+	}
+
+	async onOpen() {
+		this.registerEvent(this.app.workspace.on('file-open', () => this.refresh()));
+		// Commits, pulls and branch switches all change the history; reload once git goes idle
+		this.registerEvent(this.plugin.gitQueue.on('change', () => {
+			if (!this.plugin.gitQueue.isBusy()) {
+				this.refresh();
+			}
+		}));
+		await this.refresh();
+	}
+
+	async refresh() {
+		const activeFile = this.app.workspace.getActiveFile();
+		if (activeFile !== this.file) {
+			this.selected = [];
+		}
+		this.file = activeFile;
+		this.revisions = this.file && this.plugin.settings.isRepositoryConnected
+			? await this.plugin.gitOps.getFileHistory(this.file.path)
+			: [];
+		this.render();
+	}
+
+	render() {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass('git-history-view');
+
+		if (!this.plugin.settings.isRepositoryConnected) {
+			container.createEl('p', { text: '❌ No repository connected', cls: 'git-history-empty' });
+			return;
+		}
+		if (!this.file) {
+			container.createEl('p', { text: 'Open a note to see its history.', cls: 'git-history-empty' });
+			return;
+		}
+
+		container.createEl('h4', { text: `🕘 ${this.file.basename}` });
+
+		if (this.revisions.length === 0) {
+			container.createEl('p', { text: 'No committed history for this note yet.', cls: 'git-history-empty' });
+			return;
+		}
+
+		// Comparison toolbar
+		const toolbar = container.createDiv({ cls: 'git-history-toolbar' });
+		const compareButton = toolbar.createEl('button', {
+			text: this.selected.length === 2 ? '⚖️ Compare Selected' : `⚖️ Select ${2 - this.selected.length} to compare`
+		});
+		compareButton.disabled = this.selected.length !== 2;
+		compareButton.onclick = () => this.compareSelected();
+
+		const list = container.createDiv({ cls: 'git-history-list' });
+		this.revisions.forEach(revision => this.renderRevision(list, revision));
+	}
+
+	renderRevision(list: HTMLElement, revision: FileRevision) {
+		const item = list.createDiv({ cls: 'git-history-item' });
+		if (this.selected.includes(revision)) {
+			item.addClass('is-selected');
+		}
+
+		const header = item.createDiv({ cls: 'git-history-item-header' });
+		const checkbox = header.createEl('input', { type: 'checkbox' });
+		checkbox.checked = this.selected.includes(revision);
+		checkbox.onchange = () => {
+			if (checkbox.checked) {
+				// Keep the two most recent picks
+				this.selected = [...this.selected, revision].slice(-2);
+			} else {
+				this.selected = this.selected.filter(entry => entry !== revision);
+			}
+			this.render();
+		};
+		header.createEl('strong', { text: revision.message });
+
+		const meta = item.createDiv({ cls: 'git-history-item-meta' });
+		meta.createDiv({ text: `👤 ${revision.author} · ${new Date(revision.date).toLocaleString()}` });
+		meta.createDiv({ text: `🔖 ${revision.shortHash}${revision.branch ? ` · 🌿 ${revision.branch}` : ''}` });
+		if (revision.path !== this.file?.path) {
+			meta.createDiv({ text: `📄 was ${revision.path}` });
+		}
+
+		const actions = item.createDiv({ cls: 'git-history-item-actions' });
+
+		const viewButton = actions.createEl('button', { text: '👀 View' });
+		viewButton.onclick = () => this.openRevision(revision);
+
+		const diffButton = actions.createEl('button', { text: '⚖️ vs Current' });
+		diffButton.onclick = () => this.compareWithCurrent(revision);
+
+		// Restoring writes to the note, so it's only offered while editing a working branch
+		if (!this.plugin.settings.isReadOnlyMode) {
+			const restoreButton = actions.createEl('button', { text: '⏪ Restore' });
+			restoreButton.onclick = async () => {
+				if (this.file && await this.plugin.gitOps.restoreFileRevision(this.file.path, revision)) {
+					await this.refresh();
+				}
+			};
+		}
+	}
+
+	async openRevision(revision: FileRevision) {
+		const content = await this.plugin.gitOps.getFileAtRevision(revision.hash, revision.path);
+		if (content === null) {
+			return;
+		}
+		new RevisionModal(this.app, `${revision.path} @ ${revision.shortHash}`, content, revision.path).open();
+	}
+
+	async compareWithCurrent(revision: FileRevision) {
+		if (!this.file) {
+			return;
+		}
+		const oldContent = await this.plugin.gitOps.getFileAtRevision(revision.hash, revision.path);
+		const currentContent = await this.app.vault.read(this.file);
+		if (oldContent === null) {
+			return;
+		}
+		new RevisionDiffModal(this.app, `${revision.shortHash} → working copy`, oldContent, currentContent, this.file.path).open();
+	}
+
+	async compareSelected() {
+		if (this.selected.length !== 2) {
+			return;
+		}
+		// Log order is newest first, so the later index is the older revision
+		const [older, newer] = [...this.selected].sort((a, b) => this.revisions.indexOf(b) - this.revisions.indexOf(a));
+		const oldContent = await this.plugin.gitOps.getFileAtRevision(older.hash, older.path);
+		const newContent = await this.plugin.gitOps.getFileAtRevision(newer.hash, newer.path);
+		if (oldContent === null || newContent === null) {
+			return;
+		}
+		new RevisionDiffModal(this.app, `${older.shortHash} → ${newer.shortHash}`, oldContent, newContent, newer.path).open();
+	}
+
+	async onClose() {
+		this.containerEl.children[1].empty();
+	}
+}
+
+/**
+ * RevisionModal - Read-only rendering of a note as it was in a past commit
+ */
+export class RevisionModal extends Modal {
+	title: string;
+	content: string;
+	sourcePath: string;
+	component: Component = new Component();
+
+	constructor(app: App, title: string, content: string, sourcePath: string) {
+		super(app);
+		this.title = title;
+		this.content = content;
+		this.sourcePath = sourcePath;
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.style.width = '80vw';
+
+		contentEl.createEl('h2', { text: `🕘 ${this.title}` });
+		contentEl.createEl('p', {
+			text: 'Read-only view of a past revision.',
+			attr: { style: 'color: var(--text-muted); font-size: 0.9em;' }
+		});
+
+		const body = contentEl.createDiv({ cls: 'markdown-rendered' });
+		body.style.cssText = 'max-height: 65vh; overflow-y: auto; padding: 8px; border: 1px solid var(--background-modifier-border); border-radius: 6px;';
+
+		this.component.load();
+		if (this.sourcePath.endsWith('.md')) {
+			await MarkdownRenderer.renderMarkdown(this.content, body, this.sourcePath, this.component);
+		} else {
+			body.createEl('pre', { text: this.content });
+		}
+	}
+
+	onClose() {
+		this.component.unload();
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * RevisionDiffModal - Prose diff between two versions of a note
+ */
+export class RevisionDiffModal extends Modal {
+	title: string;
+	oldContent: string;
+	newContent: string;
+	sourcePath: string;
+
+	constructor(app: App, title: string, oldContent: string, newContent: string, sourcePath: string) {
+		super(app);
+		this.title = title;
+		this.oldContent = oldContent;
+		this.newContent = newContent;
+		this.sourcePath = sourcePath;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.style.width = '80vw';
+
+		contentEl.createEl('h2', { text: `⚖️ ${this.title}` });
+		const diffContainer = contentEl.createDiv();
+		renderProseDiff(diffContainer, this.oldContent, this.newContent, {
+			wordLevel: this.sourcePath.endsWith('.md')
+		});
+		(diffContainer.firstElementChild as HTMLElement).style.maxHeight = '65vh';
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,127 @@
+import { TFile, WorkspaceLeaf } from 'obsidian';
+
+// How long to wait for Obsidian to index files a checkout brought in
+const VAULT_SYNC_TIMEOUT = 2000;
+const VAULT_SYNC_INTERVAL = 100;
+
+/**
+ * BranchLayoutManager - Remembers which notes were open on each branch
+ * Saves the main editor area before a checkout and restores the target branch's tabs afterwards,
+ * closing tabs whose notes don't exist on the new branch
+ */
+export class BranchLayoutManager {
+	private plugin: any;
+
+	constructor(plugin: any) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Run a checkout, saving the layout for `fromBranch` first and restoring `toBranch`'s afterwards
+	 */
+	async aroundCheckout<T>(fromBranch: string, toBranch: string, checkout: () => Promise<T>): Promise<T> {
+		if (!fromBranch || fromBranch === toBranch) {
+			return checkout();
+		}
+
+		await this.saveLayout(fromBranch);
+		const result = await checkout();
+		// A failed checkout leaves us on fromBranch, whose notes are still the ones open
+		if (result) {
+			await this.restoreLayout(toBranch);
+		}
+		return result;
+	}
+
+	async saveLayout(branchName: string) {
+		// Only the editor area; sidebars are the same whatever branch is checked out
+		const layout = this.plugin.app.workspace.getLayout();
+		this.plugin.settings.branchLayouts[branchName] = layout.main;
+		await this.plugin.saveSettings();
+	}
+
+	async restoreLayout(branchName: string) {
+		try {
+			const saved = this.plugin.settings.branchLayouts[branchName];
+			if (saved) {
+				await this.waitForVault(this.collectFiles(saved));
+				const layout = this.plugin.app.workspace.getLayout();
+				layout.main = saved;
+				await this.plugin.app.workspace.changeLayout(layout);
+			}
+			await this.closeMissingFileTabs();
+		} catch (error) {
+			console.error('Failed to restore branch layout:', error);
+		}
+	}
+
+	/**
+	 * Keep saved layouts attached to the right branch when branches are renamed or deleted
+	 */
+	async renameBranch(oldName: string, newName: string) {
+		const layouts = this.plugin.settings.branchLayouts;
+		if (layouts[oldName]) {
+			layouts[newName] = layouts[oldName];
+			delete layouts[oldName];
+			await this.plugin.saveSettings();
+		}
+	}
+
+	async forgetBranches(branchNames: string[]) {
+		const layouts = this.plugin.settings.branchLayouts;
+		branchNames.forEach(branchName => delete layouts[branchName]);
+		await this.plugin.saveSettings();
+	}
+
+	/**
+	 * Detach tabs pointing at notes that aren't on disk in this branch
+	 */
+	async closeMissingFileTabs() {
+		const leaves: { leaf: WorkspaceLeaf; file: string }[] = [];
+		this.plugin.app.workspace.iterateRootLeaves((leaf: WorkspaceLeaf) => {
+			const file = leaf.getViewState().state?.file;
+			if (typeof file === 'string') {
+				leaves.push({ leaf, file });
+			}
+		});
+
+		for (const { leaf, file } of leaves) {
+			// Ask the disk; the vault index may still be catching up with the checkout
+			if (!(await this.plugin.app.vault.adapter.exists(file))) {
+				leaf.detach();
+			}
+		}
+	}
+
+	private collectFiles(node: any, files: string[] = []): string[] {
+		if (!node || typeof node !== 'object') {
+			return files;
+		}
+		const file = node.state?.state?.file;
+		if (typeof file === 'string') {
+			files.push(file);
+		}
+		(node.children || []).forEach((child: any) => this.collectFiles(child, files));
+		return files;
+	}
+
+	/**
+	 * Wait until Obsidian has indexed the files we're about to open, so tabs don't come up empty
+	 */
+	private async waitForVault(files: string[]) {
+		const deadline = Date.now() + VAULT_SYNC_TIMEOUT;
+		while (Date.now() < deadline) {
+			const pending = [];
+			for (const file of files) {
+				const indexed = this.plugin.app.vault.getAbstractFileByPath(file) instanceof TFile;
+				if (!indexed && await this.plugin.app.vault.adapter.exists(file)) {
+					pending.push(file);
+				}
+			}
+			if (pending.length === 0) {
+				return;
+			}
+			await new Promise(resolve => setTimeout(resolve, VAULT_SYNC_INTERVAL));
+		}
+	}
+}
@@ -8,15 +8,19 @@
  * Version: 0.0.5
  */
 
-import { App, Plugin, Notice, TFile, FileSystemAdapter } from 'obsidian';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { App, Plugin, Notice, TFile } from 'obsidian';
 import { GitOperations } from './git';
+import { GitRunner } from './runner';
+import { GitOperationQueue } from './queue';
 import { ReadOnlyOperations } from './readonly';
 import { GitCollabSettingTab } from './settings';
-import { BranchSelectionModal, PullRequestManagerModal } from './modals';
-
-const execAsync = promisify(exec);
+import { BranchSelectionModal, PullRequestManagerModal, RenameBranchModal, SuggestionsModal, ConflictResolverModal } from './modals';
+import { NoteHistoryView, VIEW_TYPE_NOTE_HISTORY } from './history';
+import { createBlameExtension } from './blame';
+import { BranchLayoutManager } from './layouts';
+import { ReadOnlyGuard } from './guard';
+import { NoteSuggestions, SuggestionStore, createSuggestionExtension } from './suggestions';
+import { Extension } from '@codemirror/state';
 
 export interface GitCollabSettings {
 	isReadOnlyMode: boolean;
@@ -29,6 +33,26 @@ export interface GitCollabSettings {
 	availableBranches: string[];
 	lastWorkingBranch: string;
 	repositoryTokens: Record<string, string>;
+	showBlameGutter: boolean;
+	branchNameTemplates: string[];
+	allowedBranchPrefixes: string[];
+	branchNamePattern: string;
+	// Glob patterns ("release/*") for branches that, like mainBranch, are read-only
+	protectedBranches: string[];
+	// Approvals a PR needs before merging, when GitHub's branch protection can't be read
+	requiredApprovals: number;
+	// Branch name -> saved main editor area layout
+	branchLayouts: Record<string, unknown>;
+	// Folders that stay editable in read-only mode (scratch space)
+	editableFolders: string[];
+	// Folders that ask for confirmation before editing in edit mode
+	confirmFolders: string[];
+	// Branch name -> path of the note a "propose an edit" branch was created for
+	editProposals: Record<string, string>;
+	// In read-only mode, turn edits into suggestions instead of blocking them
+	suggestionMode: boolean;
+	// Note path -> suggested changes waiting to be moved to a branch
+	pendingSuggestions: Record<string, NoteSuggestions>;
 }
 
 export const DEFAULT_SETTINGS: GitCollabSettings = {
@@ -41,16 +65,34 @@ export const DEFAULT_SETTINGS: GitCollabSettings = {
 	mainBranch: 'main',
 	availableBranches: ['main'],
 	lastWorkingBranch: '',
-	repositoryTokens: {}
+	repositoryTokens: {},
+	showBlameGutter: false,
+	branchNameTemplates: ['edit-{date}', 'feature/{note-title}', 'draft/{user}-{date}', 'personal/{user}'],
+	allowedBranchPrefixes: [],
+	branchNamePattern: '',
+	protectedBranches: [],
+	requiredApprovals: 1,
+	branchLayouts: {},
+	editableFolders: [],
+	confirmFolders: [],
+	editProposals: {},
+	suggestionMode: false,
+	pendingSuggestions: {}
 };
 
 export default class ObsidianGitCollabPlugin extends Plugin {
 	settings: GitCollabSettings;
+	private gitRunner: GitRunner;
 	private gitOps: GitOperations;
 	private readonlyOps: ReadOnlyOperations;
 	private statusBarItem: HTMLElement;
 	private ribbonIconEl: HTMLElement;
-	private isGitOperationInProgress: boolean = false;
+	private gitQueue: GitOperationQueue;
+	private layouts: BranchLayoutManager;
+	private readOnlyGuard: ReadOnlyGuard;
+	private suggestions: SuggestionStore;
+	// Registered once; emptied or filled when the blame gutter setting changes
+	private blameExtension: Extension[] = [];
 
 	async onload() {
 		console.log('Loading Obsidian Git Collaboration plugin v0.0.5');
@@ -58,8 +100,13 @@ export default class ObsidianGitCollabPlugin extends Plugin {
 		await this.loadSettings();
 		
 		// Initialize operations classes
+		this.gitRunner = new GitRunner(this);
+		this.gitQueue = new GitOperationQueue();
 		this.gitOps = new GitOperations(this);
 		this.readonlyOps = new ReadOnlyOperations(this);
+		this.layouts = new BranchLayoutManager(this);
+		this.readOnlyGuard = new ReadOnlyGuard(this);
+		this.suggestions = new SuggestionStore(this);
 
 		// Add settings tab
 		this.addSettingTab(new GitCollabSettingTab(this.app, this));
@@ -67,6 +114,7 @@ export default class ObsidianGitCollabPlugin extends Plugin {
 		// Initialize status bar item
 		this.statusBarItem = this.addStatusBarItem();
 		this.readonlyOps.updateStatusBar();
+		this.registerEvent(this.gitQueue.on('change', () => this.readonlyOps.updateStatusBar()));
 
 		// Initialize ribbon icon
 		this.ribbonIconEl = this.addRibbonIcon('lock', 'Toggle Read-Only Mode', () => {
@@ -99,6 +147,45 @@ export default class ObsidianGitCollabPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'rename-current-branch',
+			name: 'Rename Current Branch',
+			callback: () => {
+				new RenameBranchModal(this.app, this).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'propose-edit-to-note',
+			name: 'Propose Edit to This Note',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!this.settings.isReadOnlyMode || !this.settings.isRepositoryConnected || !file || file.extension !== 'md') {
+					return false;
+				}
+				if (!checking) {
+					this.readonlyOps.proposeEdit(file);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'toggle-suggestion-mode',
+			name: 'Toggle Suggestion Mode',
+			callback: () => {
+				this.readonlyOps.setSuggestionMode(!this.settings.suggestionMode);
+			}
+		});
+
+		this.addCommand({
+			id: 'review-suggestions',
+			name: 'Review Suggestions',
+			callback: () => {
+				new SuggestionsModal(this.app, this).open();
+			}
+		});
+
 		this.addCommand({
 			id: 'manage-pull-requests',
 			name: 'Manage Pull Requests',
@@ -115,6 +202,44 @@ export default class ObsidianGitCollabPlugin extends Plugin {
 			}
 		});
 
+		this.registerView(VIEW_TYPE_NOTE_HISTORY, (leaf) => new NoteHistoryView(leaf, this));
+
+		this.addCommand({
+			id: 'open-note-history',
+			name: 'Open Note History',
+			callback: () => {
+				this.activateHistoryView();
+			}
+		});
+
+		this.registerEditorExtension(this.readonlyOps.editorExtension);
+		this.registerEditorExtension(this.blameExtension);
+		this.registerEditorExtension(createSuggestionExtension(this));
+		this.updateBlameGutter();
+
+		this.addCommand({
+			id: 'toggle-blame-gutter',
+			name: 'Toggle Blame Gutter',
+			callback: async () => {
+				this.settings.showBlameGutter = !this.settings.showBlameGutter;
+				await this.saveSettings();
+				this.updateBlameGutter();
+			}
+		});
+
+		this.addCommand({
+			id: 'resolve-merge-conflicts',
+			name: 'Resolve Merge Conflicts',
+			callback: () => {
+				new ConflictResolverModal(this.app, this).open();
+			}
+		});
+
+		// Newly opened notes pick up the read-only extension automatically; keep their styling in step too
+		this.registerEvent(this.app.workspace.on('layout-change', () => this.readonlyOps.syncMarkdownViews()));
+		// An editor showing a different note may fall under different folder rules
+		this.registerEvent(this.app.workspace.on('file-open', () => this.readonlyOps.refreshEditors()));
+
 		// Initialize read-only mode if enabled
 		if (this.settings.isReadOnlyMode) {
 			this.readonlyOps.enableReadOnlyMode();
@@ -122,16 +247,50 @@ export default class ObsidianGitCollabPlugin extends Plugin {
 			this.readonlyOps.disableReadOnlyMode();
 		}
 		
-		// Add event listener for new file creation
+		// Add event listener for new file creation. Files written by queued git work are expected;
+		// their events can arrive after the work finishes, but by then the file is tracked and kept
 		this.app.vault.on('create', (file) => {
-			if (this.settings.isReadOnlyMode && file instanceof TFile && !this.isGitOperationInProgress) {
+			if (this.settings.isReadOnlyMode && file instanceof TFile && !this.gitQueue.isBusy()) {
 				this.deleteNewFile(file);
 			}
 		});
+
+		// Edits, renames and deletions from outside the editor are reverted while read-only
+		this.registerEvent(this.app.vault.on('modify', (file) => this.readOnlyGuard.onModify(file)));
+		// Locked editors only take the new text of a note that changed on disk from the plugin
+		this.registerEvent(this.app.vault.on('modify', (file) => this.readonlyOps.reloadLockedEditors(file)));
+		this.registerEvent(this.app.vault.on('delete', (file) => this.readOnlyGuard.onDelete(file)));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.readOnlyGuard.onRename(file, oldPath)));
 	}
 
 	onunload() {
 		console.log('Unloading Obsidian Git Collaboration plugin v0.0.5');
+		this.readonlyOps.teardown();
+		this.readOnlyGuard.cancel();
+		// Keep suggestions typed in the last moment before closing
+		this.suggestions.flush();
+	}
+
+	async activateHistoryView() {
+		const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_NOTE_HISTORY);
+		if (existing.length > 0) {
+			this.app.workspace.revealLeaf(existing[0]);
+			return;
+		}
+
+		const leaf = this.app.workspace.getRightLeaf(false);
+		if (leaf) {
+			await leaf.setViewState({ type: VIEW_TYPE_NOTE_HISTORY, active: true });
+			this.app.workspace.revealLeaf(leaf);
+		}
+	}
+
+	updateBlameGutter() {
+		this.blameExtension.length = 0;
+		if (this.settings.showBlameGutter) {
+			this.blameExtension.push(createBlameExtension(this));
+		}
+		this.app.workspace.updateOptions();
 	}
 
 	async loadSettings() {
@@ -263,51 +422,6 @@ export default class ObsidianGitCollabPlugin extends Plugin {
 		}
 	}
 
-	preventKeyInput = (event: KeyboardEvent) => {
-		if (this.settings.isReadOnlyMode) {
-			// Allow key input in modals and command palette
-			const target = event.target as HTMLElement;
-			if (target.closest('.modal') || target.closest('.prompt') || target.closest('.suggestion-container')) {
-				return;
-			}
-			// Allow global shortcuts (Ctrl/Cmd+Q, Ctrl/Cmd+W, etc.) and function keys
-			if ((event.ctrlKey || event.metaKey) &&
-			   (event.key === 'q' || event.key === 'w' || event.key === 'r' || event.key === 's' || event.key === 'o' || event.key === 'p')) {
-				return;
-			}
-			// Allow navigation keys and other essential keys
-			const navigationKeys = ['Tab', 'Escape', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Enter', 'Backspace', 'Delete', 'Home', 'End', 'PageUp', 'PageDown', 'F1', 'F2', 'F3', 'F4', 'F5', 'F6', 'F7', 'F8', 'F9', 'F10', 'F11', 'F12'];
-			if (navigationKeys.includes(event.key)) {
-				return;
-			}
-			// Prevent all key input except Ctrl/Cmd+A (select all)
-			if (!(event.ctrlKey || event.metaKey) || event.key !== 'a') {
-				event.preventDefault();
-			}
-		}
-	}
-
-	preventInput = (event: Event) => {
-		if (this.settings.isReadOnlyMode) {
-			// Allow input in modals and command palette
-			const target = event.target as HTMLElement;
-			if (target.closest('.modal') || target.closest('.prompt') || target.closest('.suggestion-container')) {
-				return;
-			}
-			event.preventDefault();
-		}
-	}
-
-	preventMouseEditing = (event: MouseEvent) => {
-		if (this.settings.isReadOnlyMode) {
-			// Allow mouse editing in modals and command palette
-			const target = event.target as HTMLElement;
-			if (target.closest('.modal') || target.closest('.prompt') || target.closest('.suggestion-container')) {
-				return;
-			}
-			event.preventDefault();
-		}
-	}
 	// ========================
 	// BRANCH RULE VALIDATION METHODS
 	// ========================
@@ -322,32 +436,28 @@ export default class ObsidianGitCollabPlugin extends Plugin {
 	 */
 	async deleteNewFile(file: TFile) {
 		try {
-			// Get the vault path
-			const adapter = this.app.vault.adapter;
-			if (!(adapter instanceof FileSystemAdapter)) {
+			if (this.gitRunner.getVaultPath() === null) {
 				console.error('Cannot access vault directory for git operations');
 				return;
 			}
 			
-			const vaultPath = (adapter as any).basePath || '';
 			const filePath = file.path;
 			
+			// Editable folders accept new notes even in read-only mode
+			if (this.readonlyOps.getNoteProtection(filePath) === 'editable') {
+				return;
+			}
+			
 			// Check if file is ignored by git
-			try {
-				await execAsync(`git check-ignore "${filePath}"`, { cwd: vaultPath });
+			if (await this.gitRunner.succeeds(['check-ignore', '--', filePath])) {
 				// File is ignored, don't delete
 				return;
-			} catch (error) {
-				// File is not ignored, continue checking
 			}
 			
 			// Check if file is tracked by git
-			try {
-				await execAsync(`git ls-files --error-unmatch "${filePath}"`, { cwd: vaultPath });
+			if (await this.gitRunner.succeeds(['ls-files', '--error-unmatch', '--', filePath])) {
 				// File is tracked, don't delete
 				return;
-			} catch (error) {
-				// File is not tracked, continue to deletion
 			}
 			
 			// File is untracked and not ignored, delete it
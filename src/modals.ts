@@ -1,8 +1,10 @@
-import { App, Modal, Notice, Setting, FileSystemAdapter } from 'obsidian';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import { App, Modal, Notice, Setting, FileSystemAdapter, TFile } from 'obsidian';
+import { GitCollabError } from './errors';
+import { parseDiff3, buildResolution, ConflictHunk, HunkChoice } from './conflicts';
+import { ChangedFile, FileDiff, RemoteBranch, MergedBranches, BranchDetails, BranchRename, RevertedChanges, PullRequestFile, PullRequestComment, ReviewThread, ReviewEvent, ReviewSummary, PullRequestChecks, CheckResult, PullRequestOptions, PullRequestFormOptions, PullRequestTemplate } from './git';
+import { renderProseDiff, formatBytes, ProseDiffOptions } from './diff';
+import { expandBranchTemplate } from './naming';
+import { Suggestion } from './suggestions';
 
 // ============================================================================
 // BRANCH SELECTION MODAL
@@ -10,6 +12,11 @@ const execAsync = promisify(exec);
 
 export class BranchSelectionModal extends Modal {
 	plugin: any;
+	mergedBranches: MergedBranches = { local: [], remote: [] };
+	// Branches ticked for bulk deletion
+	selectedForDeletion: Set<string> = new Set();
+	// Branches listed under "Branches on GitHub"; deleting them always means deleting them there
+	remoteOnlyBranches: Set<string> = new Set();
 
 	constructor(app: App, plugin: any) {
 		super(app);
@@ -22,6 +29,8 @@ export class BranchSelectionModal extends Modal {
 
 		// Refresh available branches from git before displaying
 		await this.plugin.gitOps.refreshAvailableBranches();
+		this.mergedBranches = await this.plugin.gitOps.getMergedBranches();
+		this.selectedForDeletion.clear();
 
 		contentEl.createEl('h2', { text: 'Select Branch for Editing' });
 		contentEl.createEl('p', { 
@@ -29,19 +38,32 @@ export class BranchSelectionModal extends Modal {
 		});
 
 		// Current branch info
-		contentEl.createEl('div', { 
+		const currentEl = contentEl.createEl('div', { 
 			text: `📍 Currently on: ${this.plugin.settings.currentBranch}`,
 			cls: 'git-branch-current'
 		});
+		if (!this.plugin.gitOps.isProtectedBranch(this.plugin.settings.currentBranch)) {
+			const renameButton = currentEl.createEl('button', { text: '✏️ Rename', cls: 'git-branch-rename' });
+			renameButton.onclick = () => {
+				this.close();
+				new RenameBranchModal(this.app, this.plugin).open();
+			};
+		}
 
 		// Available branches section
 		if (this.plugin.settings.availableBranches.length > 0) {
 			contentEl.createEl('h3', { text: 'Switch to Existing Branch' });
 			
 			const branchList = contentEl.createEl('div', { cls: 'git-branch-list' });
+			// Filled in once the (slower) branch comparisons and PR lookup finish
+			const detailEls: Record<string, HTMLElement> = {};
 			
 			this.plugin.settings.availableBranches.forEach((branch: string) => {
 				const branchItem = branchList.createEl('div', { cls: 'git-branch-item' });
+				const deletable = this.isDeletable(branch);
+				if (deletable) {
+					this.renderDeletionCheckbox(branchItem, branch);
+				}
 				
 				const branchButton = branchItem.createEl('button', { 
 					text: `🌿 ${branch}`,
@@ -54,22 +76,72 @@ export class BranchSelectionModal extends Modal {
 					branchButton.textContent = `🔄 ${branch} (last working)`;
 				}
 				
-				// Disable main branch (read-only)
-				if (branch === this.plugin.settings.mainBranch) {
+				// Protected branches can only be viewed, and only from read-only mode
+				const isProtected = this.plugin.gitOps.isProtectedBranch(branch);
+				if (isProtected) {
 					branchButton.textContent = `🔒 ${branch} (read-only)`;
-					branchButton.disabled = true;
+					branchButton.disabled = !this.plugin.settings.isReadOnlyMode || branch === this.plugin.settings.currentBranch;
+				}
+				
+				if (this.mergedBranches.local.includes(branch)) {
+					branchButton.createSpan({ text: ' ✅ merged', cls: 'git-branch-merged' });
+				}
+				if (branch !== this.plugin.settings.mainBranch) {
+					detailEls[branch] = branchButton.createDiv({ cls: 'git-branch-meta' });
 				}
 				
 				branchButton.onclick = async () => {
-					if (branch !== this.plugin.settings.mainBranch) {
-						await this.plugin.gitOps.switchToBranch(branch);
-						await this.plugin.readonlyOps.enableEditMode(branch);
-						this.close();
+					if (isProtected) {
+						if (await this.plugin.gitOps.switchToBranch(branch)) {
+							this.close();
+						}
+						return;
 					}
+					await this.plugin.gitOps.switchToBranch(branch);
+					await this.plugin.readonlyOps.enableEditMode(branch);
+					this.close();
 				};
+
+				if (deletable) {
+					this.renderDeleteButton(branchItem, [branch]);
+				}
 			});
+			this.renderBranchDetails(detailEls);
+
+			// Bulk cleanup
+			const cleanupBar = contentEl.createDiv('git-branch-cleanup');
+			const selectMergedButton = cleanupBar.createEl('button', { text: '✅ Select Merged' });
+			selectMergedButton.onclick = () => {
+				contentEl.querySelectorAll('input[data-branch]').forEach((el) => {
+					const checkbox = el as HTMLInputElement;
+					const branch = checkbox.dataset.branch as string;
+					const merged = this.mergedBranches.local.includes(branch) || this.mergedBranches.remote.includes(branch);
+					checkbox.checked = merged;
+					if (merged) {
+						this.selectedForDeletion.add(branch);
+					} else {
+						this.selectedForDeletion.delete(branch);
+					}
+				});
+			};
+			const deleteSelectedButton = cleanupBar.createEl('button', { text: '🗑️ Delete Selected…' });
+			deleteSelectedButton.onclick = () => {
+				if (this.selectedForDeletion.size === 0) {
+					new Notice('Select branches to delete first');
+					return;
+				}
+				this.confirmDeleteBranches([...this.selectedForDeletion]);
+			};
 		}
 
+		// Branches teammates pushed that aren't checked out here yet
+		const remoteSection = contentEl.createDiv();
+		remoteSection.createEl('p', {
+			text: '☁️ Looking for branches on GitHub…',
+			attr: { style: 'color: var(--text-muted); font-size: 0.9em;' }
+		});
+		this.renderRemoteBranches(remoteSection);
+
 		// Create new branch section
 		contentEl.createEl('h3', { text: 'Create New Branch' });
 		
@@ -84,20 +156,24 @@ export class BranchSelectionModal extends Modal {
 				.setPlaceholder('feature/my-edits')
 				.onChange(async (value) => {
 					newBranchName = value;
+					updateValidation();
 				}));
 
-		// Suggested branch names
+		const validationEl = branchNameContainer.createDiv({ cls: 'git-branch-validation' });
+
+		// Suggested branch names, generated from the team's templates
 		const suggestionsContainer = contentEl.createDiv('git-branch-suggestions');
 		suggestionsContainer.createEl('p', { text: 'Quick suggestions:' });
 		
-		const suggestions = [
-			`edit-${new Date().toISOString().split('T')[0]}`,
-			'feature/new-content',
-			'draft/work-in-progress',
-			'personal/notes'
-		];
-
-		suggestions.forEach(suggestion => {
+		const activeFile = this.app.workspace.getActiveFile();
+		const suggestions: string[] = this.plugin.settings.branchNameTemplates
+			.map((template: string) => expandBranchTemplate(template, {
+				userName: this.plugin.settings.userName,
+				noteTitle: activeFile ? activeFile.basename : null
+			}))
+			.filter((suggestion: string | null): suggestion is string => !!suggestion);
+
+		[...new Set(suggestions)].forEach(suggestion => {
 			const suggestionButton = suggestionsContainer.createEl('button', {
 				text: suggestion,
 				cls: 'git-branch-suggestion'
@@ -106,6 +182,7 @@ export class BranchSelectionModal extends Modal {
 				newBranchName = suggestion;
 				const textInput = branchNameContainer.querySelector('input') as HTMLInputElement;
 				if (textInput) textInput.value = suggestion;
+				updateValidation();
 			};
 		});
 
@@ -118,11 +195,25 @@ export class BranchSelectionModal extends Modal {
 
 		const createButton = buttonContainer.createEl('button', { text: 'Create & Edit' });
 		createButton.style.cssText = 'background: var(--interactive-accent); color: white;';
+		createButton.disabled = true;
+
+		const getNamingError = () => this.plugin.gitOps.validateNewBranchName(newBranchName.trim());
+		const updateValidation = () => {
+			// Don't nag before the user has typed anything
+			const error = newBranchName.trim() ? getNamingError() : null;
+			validationEl.setText(error ? `⚠️ ${error}` : '');
+			createButton.disabled = !newBranchName.trim() || error !== null;
+		};
+
 		createButton.onclick = async () => {
 			if (!newBranchName.trim()) {
 				new Notice('Please enter a branch name');
 				return;
 			}
+			if (getNamingError()) {
+				updateValidation();
+				return;
+			}
 
 			// Create new branch and switch to it
 			const success = await this.plugin.gitOps.createNewBranch(newBranchName.trim());
@@ -134,6 +225,274 @@ export class BranchSelectionModal extends Modal {
 		};
 	}
 
+	async renderRemoteBranches(container: HTMLElement) {
+		const remoteBranches: RemoteBranch[] = await this.plugin.gitOps.getRemoteOnlyBranches();
+		this.remoteOnlyBranches = new Set(remoteBranches.map(branch => branch.name));
+		container.empty();
+		if (remoteBranches.length === 0) {
+			return;
+		}
+
+		container.createEl('h3', { text: 'Branches on GitHub' });
+		const branchList = container.createEl('div', { cls: 'git-branch-list' });
+
+		remoteBranches.forEach(branch => {
+			const branchItem = branchList.createEl('div', { cls: 'git-branch-item' });
+			// Protected branches can only be viewed, and only from read-only mode
+			const isProtected = this.plugin.gitOps.isProtectedBranch(branch.name);
+			if (!isProtected) {
+				this.renderDeletionCheckbox(branchItem, branch.name);
+			}
+			const branchButton = branchItem.createEl('button', { cls: 'git-branch-button git-branch-remote' });
+			branchButton.createSpan({ text: isProtected ? `🔒 ${branch.name} (read-only, remote only)` : `☁️ ${branch.name} (remote only)` });
+			branchButton.disabled = isProtected && !this.plugin.settings.isReadOnlyMode;
+			if (this.mergedBranches.remote.includes(branch.name)) {
+				branchButton.createSpan({ text: ' ✅ merged', cls: 'git-branch-merged' });
+			}
+			branchButton.createDiv({
+				text: `👤 ${branch.author} · ${new Date(branch.date).toLocaleString()}`,
+				cls: 'git-branch-meta'
+			});
+
+			branchButton.onclick = async () => {
+				if (await this.plugin.gitOps.checkoutRemoteBranch(branch.name)) {
+					if (!isProtected) {
+						await this.plugin.readonlyOps.enableEditMode(branch.name);
+					}
+					this.close();
+				}
+			};
+
+			if (!isProtected) {
+				this.renderDeleteButton(branchItem, [branch.name]);
+			}
+		});
+	}
+
+	async renderBranchDetails(detailEls: Record<string, HTMLElement>) {
+		const details: Record<string, BranchDetails> = await this.plugin.gitOps.getBranchDetails();
+		// Open PRs need the API; without a token just leave them out rather than nag on every open
+		const pullRequests: any[] = this.plugin.getRepositoryToken(this.plugin.settings.repositoryUrl)
+			? await this.plugin.gitOps.fetchPullRequests()
+			: [];
+		const mainBranch = this.plugin.settings.mainBranch;
+
+		Object.entries(detailEls).forEach(([branch, el]) => {
+			const info = details[branch];
+			if (!info) {
+				return;
+			}
+
+			const comparisons = [`↑${info.aheadOfMain} ↓${info.behindMain} vs ${mainBranch}`];
+			if (!info.upstream) {
+				comparisons.push('not on GitHub yet');
+			} else if (info.aheadOfUpstream === 0 && info.behindUpstream === 0) {
+				comparisons.push('in sync with GitHub');
+			} else {
+				comparisons.push(`↑${info.aheadOfUpstream} ↓${info.behindUpstream} vs GitHub`);
+			}
+			el.createDiv({ text: comparisons.join(' · ') });
+			el.createDiv({ text: `💬 ${info.lastCommitMessage} · ${new Date(info.lastCommitDate).toLocaleString()}` });
+
+			const pr = pullRequests.find(pull => pull.head && pull.head.ref === branch);
+			if (pr) {
+				el.createDiv({ text: `🔀 Open PR #${pr.number}: ${pr.title}`, cls: 'git-branch-pr' });
+			}
+		});
+	}
+
+	isDeletable(branch: string): boolean {
+		return !this.plugin.gitOps.isProtectedBranch(branch) && branch !== this.plugin.settings.currentBranch;
+	}
+
+	renderDeletionCheckbox(container: HTMLElement, branch: string) {
+		const checkbox = container.createEl('input', { type: 'checkbox', cls: 'git-branch-select' });
+		checkbox.dataset.branch = branch;
+		checkbox.onchange = () => {
+			if (checkbox.checked) {
+				this.selectedForDeletion.add(branch);
+			} else {
+				this.selectedForDeletion.delete(branch);
+			}
+		};
+	}
+
+	renderDeleteButton(container: HTMLElement, branches: string[]) {
+		const deleteButton = container.createEl('button', { text: '🗑️', cls: 'git-branch-delete' });
+		deleteButton.setAttribute('aria-label', 'Delete branch');
+		deleteButton.onclick = () => this.confirmDeleteBranches(branches);
+	}
+
+	confirmDeleteBranches(branches: string[]) {
+		const deleteModal = new Modal(this.app);
+		const { contentEl } = deleteModal;
+
+		contentEl.createEl('h3', { text: `Delete ${branches.length} branch(es)?` });
+		const list = contentEl.createEl('ul');
+		branches.forEach(branch => {
+			const merged = this.mergedBranches.local.includes(branch) || this.mergedBranches.remote.includes(branch);
+			list.createEl('li', { text: merged ? `${branch} (merged)` : `${branch} (not merged)` });
+		});
+
+		if (branches.some(branch => !this.mergedBranches.local.includes(branch) && !this.mergedBranches.remote.includes(branch))) {
+			contentEl.createEl('p', {
+				text: '⚠️ Some of these branches have changes that are not in the main branch yet.',
+				attr: { style: 'color: var(--color-orange); font-size: 0.9em;' }
+			});
+		}
+		contentEl.createEl('p', {
+			text: 'Branches with commits that were never pushed are kept. This action cannot be undone.',
+			attr: { style: 'color: var(--text-muted); font-size: 0.9em;' }
+		});
+
+		// Branches that only exist on GitHub can only be deleted there
+		const remoteOnly = branches.every(branch => this.remoteOnlyBranches.has(branch));
+		let deleteRemote = remoteOnly;
+		new Setting(contentEl)
+			.setName('Also delete on GitHub')
+			.setDesc(remoteOnly
+				? 'These branches only exist on GitHub, so they will be removed there for everyone'
+				: 'Remove the branches from the shared repository for everyone')
+			.addToggle(toggle => toggle
+				.setValue(deleteRemote)
+				.setDisabled(remoteOnly)
+				.onChange(value => {
+					deleteRemote = value;
+				}));
+
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.cssText = 'display: flex; gap: 10px; margin-top: 20px; justify-content: flex-end;';
+
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.onclick = () => deleteModal.close();
+
+		const confirmButton = buttonContainer.createEl('button', { text: '🗑️ Delete' });
+		confirmButton.style.cssText = 'background: var(--color-red); color: white;';
+		confirmButton.onclick = async () => {
+			await this.plugin.gitOps.deleteBranches(branches, deleteRemote);
+			deleteModal.close();
+			this.onOpen(); // Refresh the branch lists
+		};
+
+		deleteModal.open();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+// ============================================================================
+// RENAME BRANCH MODAL
+// ============================================================================
+
+/**
+ * RenameBranchModal - Give the current branch a meaningful name, locally and on GitHub
+ * Offers to recreate the open PR that GitHub closes when the old branch is deleted
+ */
+export class RenameBranchModal extends Modal {
+	plugin: any;
+
+	constructor(app: App, plugin: any) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const currentBranch = this.plugin.settings.currentBranch;
+		contentEl.createEl('h2', { text: '✏️ Rename Current Branch' });
+
+		if (this.plugin.gitOps.isProtectedBranch(currentBranch)) {
+			contentEl.createEl('p', { text: `🔒 ${currentBranch} is protected and can't be renamed. Switch to a working branch first.` });
+			return;
+		}
+
+		contentEl.createEl('p', {
+			text: `Renames "${currentBranch}" here and on GitHub. Teammates who checked out the old name will need to pick the new one.`,
+			attr: { style: 'color: var(--text-muted); font-size: 0.9em;' }
+		});
+
+		let newName = '';
+		const nameContainer = contentEl.createDiv('git-new-branch-container');
+		new Setting(nameContainer)
+			.setName('New Branch Name')
+			.addText(text => text
+				.setValue(currentBranch)
+				.onChange(value => {
+					newName = value;
+					updateValidation();
+				}));
+		const validationEl = nameContainer.createDiv({ cls: 'git-branch-validation' });
+
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.cssText = 'display: flex; gap: 10px; margin-top: 20px; justify-content: flex-end;';
+
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.onclick = () => this.close();
+
+		const renameButton = buttonContainer.createEl('button', { text: '✏️ Rename' });
+		renameButton.style.cssText = 'background: var(--interactive-accent); color: white;';
+		renameButton.disabled = true;
+
+		const updateValidation = () => {
+			const trimmed = newName.trim();
+			const error = trimmed && trimmed !== currentBranch ? this.plugin.gitOps.validateNewBranchName(trimmed) : null;
+			validationEl.setText(error ? `⚠️ ${error}` : '');
+			renameButton.disabled = !trimmed || trimmed === currentBranch || error !== null;
+		};
+
+		renameButton.onclick = async () => {
+			renameButton.disabled = true;
+			const rename = await this.plugin.gitOps.renameCurrentBranch(newName.trim());
+			if (!rename) {
+				updateValidation();
+				return;
+			}
+			this.close();
+			if (rename.closedPullRequest) {
+				this.confirmRecreatePR(rename);
+			}
+		};
+	}
+
+	confirmRecreatePR(rename: BranchRename) {
+		const pr = rename.closedPullRequest;
+		const recreateModal = new Modal(this.app);
+		const { contentEl } = recreateModal;
+
+		contentEl.createEl('h3', { text: `Recreate PR #${pr.number}?` });
+		contentEl.createEl('p', { text: pr.title });
+		contentEl.createEl('p', {
+			text: `GitHub closed this pull request when "${rename.oldName}" was deleted. Open a new one from "${rename.newName}" into "${pr.base.ref}" with the same title and description?`,
+			attr: { style: 'color: var(--text-muted); font-size: 0.9em;' }
+		});
+
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.cssText = 'display: flex; gap: 10px; margin-top: 20px; justify-content: flex-end;';
+
+		const skipButton = buttonContainer.createEl('button', { text: 'Skip' });
+		skipButton.onclick = () => recreateModal.close();
+
+		const confirmButton = buttonContainer.createEl('button', { text: '🔀 Recreate Pull Request' });
+		confirmButton.style.cssText = 'background: var(--interactive-accent); color: white;';
+		confirmButton.onclick = async () => {
+			// Same target branch and draft state as the PR GitHub closed
+			const success = await this.plugin.gitOps.createPullRequest(rename.newName, pr.title, pr.body || '', undefined, {
+				base: pr.base.ref,
+				draft: !!pr.draft
+			});
+			if (success) {
+				recreateModal.close();
+			}
+		};
+
+		recreateModal.open();
+	}
+
 	onClose() {
 		const { contentEl } = this;
 		contentEl.empty();
@@ -392,6 +751,8 @@ export class CloneRepositoryModal extends Modal {
 export class PullRequestManagerModal extends Modal {
 	plugin: any;
 	pullRequests: any[] = [];
+	// PR number -> review state, filled in as each card loads
+	reviewSummaries: Map<number, ReviewSummary> = new Map();
 
 	constructor(app: App, plugin: any) {
 		super(app);
@@ -492,6 +853,9 @@ export class PullRequestManagerModal extends Modal {
 			<div><strong>Created:</strong> ${new Date(pr.created_at).toLocaleDateString()}</div>
 		`;
 
+		this.renderReviewState(prEl.createDiv({ cls: 'git-pr-review-state' }), pr);
+		const checksEl = prEl.createDiv({ cls: 'git-pr-checks' });
+
 		// PR Description
 		if (pr.body && pr.body.trim()) {
 			const descEl = prEl.createDiv();
@@ -511,6 +875,24 @@ export class PullRequestManagerModal extends Modal {
 		const actionsEl = prEl.createDiv();
 		actionsEl.style.cssText = 'display: flex; gap: 8px; margin-top: 12px; flex-wrap: wrap;';
 
+		const reviewButton = actionsEl.createEl('button', { text: '🔍 Review Changes' });
+		reviewButton.style.cssText = 'background: var(--interactive-accent); color: white; padding: 6px 12px; font-size: 0.9em;';
+		reviewButton.onclick = () => {
+			new PullRequestReviewModal(this.app, this.plugin, pr).open();
+		};
+
+		const submitReviewButton = actionsEl.createEl('button', { text: '📝 Submit Review' });
+		submitReviewButton.style.cssText = 'background: var(--background-modifier-border); padding: 6px 12px; font-size: 0.9em;';
+		submitReviewButton.onclick = () => {
+			new SubmitReviewModal(this.app, this.plugin, pr, () => this.onOpen()).open();
+		};
+
+		const conversationButton = actionsEl.createEl('button', { text: '💬 Conversation' });
+		conversationButton.style.cssText = 'background: var(--background-modifier-border); padding: 6px 12px; font-size: 0.9em;';
+		conversationButton.onclick = () => {
+			new PullRequestReviewModal(this.app, this.plugin, pr, 'conversation').open();
+		};
+
 		// View on GitHub button
 		const viewButton = actionsEl.createEl('button', { text: '👀 View on GitHub' });
 		viewButton.style.cssText = 'background: var(--background-modifier-border); padding: 6px 12px; font-size: 0.9em;';
@@ -519,8 +901,9 @@ export class PullRequestManagerModal extends Modal {
 		};
 
 		// Merge button (only if mergeable or unknown - not if conflicts)
+		let mergeButton: HTMLButtonElement | null = null;
 		if (pr.mergeable !== false) {
-			const mergeButton = actionsEl.createEl('button', { text: '✅ Merge' });
+			mergeButton = actionsEl.createEl('button', { text: '✅ Merge' });
 			mergeButton.style.cssText = 'background: var(--color-green); color: white; padding: 6px 12px; font-size: 0.9em;';
 			mergeButton.onclick = () => this.showMergeOptions(pr);
 		}
@@ -529,6 +912,93 @@ export class PullRequestManagerModal extends Modal {
 		const closeButton = actionsEl.createEl('button', { text: '❌ Close' });
 		closeButton.style.cssText = 'background: var(--color-red); color: white; padding: 6px 12px; font-size: 0.9em;';
 		closeButton.onclick = () => this.confirmClosePR(pr);
+
+		this.renderChecks(checksEl, pr, statusEl, mergeButton);
+	}
+
+	/**
+	 * Show CI results on a card; the PR detail fetched alongside also settles the mergeable badge
+	 */
+	async renderChecks(container: HTMLElement, pr: any, statusEl: HTMLElement, mergeButton: HTMLButtonElement | null) {
+		container.setText('🔄 Loading checks...');
+		const result: PullRequestChecks | null = await this.plugin.gitOps.getPullRequestChecks(pr.number);
+		container.empty();
+		if (!result) {
+			return;
+		}
+
+		pr.mergeable = result.pullRequest.mergeable;
+		statusEl.textContent = this.getPRStatusText(pr);
+		statusEl.style.background = this.getPRStatusColor(pr);
+
+		result.checks.forEach(check => {
+			const checkEl = container.createDiv({ cls: `git-pr-check is-${check.state}` });
+			checkEl.createSpan({ text: `${this.getCheckIcon(check)} ${check.name}${result.protectionKnown && !check.required ? ' (optional)' : ''}` });
+			if (check.description) {
+				checkEl.createSpan({ text: check.description, cls: 'git-pr-check-description' });
+			}
+			const detailsUrl = check.detailsUrl;
+			if (detailsUrl) {
+				const detailsLink = checkEl.createEl('a', { text: 'Details', href: detailsUrl });
+				detailsLink.onclick = (event) => {
+					event.preventDefault();
+					window.open(detailsUrl, '_blank');
+				};
+			}
+		});
+
+		const failing = result.checks.filter(check => check.required && check.state === 'failure');
+		if (mergeButton) {
+			if (result.pullRequest.mergeable === false) {
+				mergeButton.disabled = true;
+				mergeButton.setAttribute('aria-label', 'This branch has conflicts that must be resolved');
+			} else if (failing.length > 0) {
+				mergeButton.disabled = true;
+				mergeButton.setAttribute('aria-label', `Required checks failing: ${failing.map(check => check.name).join(', ')}`);
+			}
+		}
+	}
+
+	getCheckIcon(check: CheckResult): string {
+		switch (check.state) {
+			case 'success': return '✅';
+			case 'failure': return '❌';
+			case 'pending': return '⏳';
+			default: return '⚪';
+		}
+	}
+
+	async renderReviewState(container: HTMLElement, pr: any) {
+		container.setText('🔄 Loading reviews...');
+		const summary: ReviewSummary | null = await this.plugin.gitOps.getReviewSummary(pr);
+		container.empty();
+		if (!summary) {
+			return;
+		}
+		this.reviewSummaries.set(pr.number, summary);
+
+		const approvals = container.createDiv({
+			text: `👍 ${summary.approvedBy.length} of ${summary.requiredApprovals} required approval(s)${summary.approvedBy.length > 0 ? `: ${summary.approvedBy.join(', ')}` : ''}`
+		});
+		if (summary.changesRequestedBy.length > 0) {
+			container.createDiv({ text: `✋ Changes requested by ${summary.changesRequestedBy.join(', ')}`, cls: 'git-pr-review-blocked' });
+		} else if (summary.approvedBy.length >= summary.requiredApprovals) {
+			approvals.addClass('git-pr-review-approved');
+		}
+	}
+
+	/**
+	 * Reasons the team's review process says this PR isn't ready to merge
+	 */
+	getMergeBlockers(summary: ReviewSummary): string[] {
+		const blockers = [];
+		if (summary.approvedBy.length < summary.requiredApprovals) {
+			blockers.push(`Only ${summary.approvedBy.length} of ${summary.requiredApprovals} required approval(s)`);
+		}
+		if (summary.changesRequestedBy.length > 0) {
+			blockers.push(`Changes requested by ${summary.changesRequestedBy.join(', ')}`);
+		}
+		return blockers;
 	}
 
 	async showMergeOptions(pr: any) {
@@ -538,6 +1008,14 @@ export class PullRequestManagerModal extends Modal {
 		contentEl.createEl('h3', { text: `Merge PR #${pr.number}` });
 		contentEl.createEl('p', { text: pr.title });
 
+		const summary: ReviewSummary | null = this.reviewSummaries.get(pr.number) || await this.plugin.gitOps.getReviewSummary(pr);
+		const blockers = summary ? this.getMergeBlockers(summary) : [];
+		if (blockers.length > 0) {
+			const warningEl = contentEl.createDiv({ cls: 'git-pr-merge-warning' });
+			warningEl.createEl('strong', { text: '⚠️ This pull request hasn\'t passed review' });
+			blockers.forEach(blocker => warningEl.createDiv({ text: blocker }));
+		}
+
 		const optionsEl = contentEl.createDiv();
 		optionsEl.style.cssText = 'margin: 20px 0;';
 
@@ -577,8 +1055,8 @@ export class PullRequestManagerModal extends Modal {
 		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
 		cancelButton.onclick = () => mergeModal.close();
 
-		const confirmButton = buttonContainer.createEl('button', { text: '✅ Merge Pull Request' });
-		confirmButton.style.cssText = 'background: var(--color-green); color: white;';
+		const confirmButton = buttonContainer.createEl('button', { text: blockers.length > 0 ? '⚠️ Merge Anyway' : '✅ Merge Pull Request' });
+		confirmButton.style.cssText = `background: ${blockers.length > 0 ? 'var(--color-orange)' : 'var(--color-green)'}; color: white;`;
 		confirmButton.onclick = async () => {
 			const success = await this.plugin.gitOps.mergePullRequest(pr.number, mergeMethod);
 			if (success) {
@@ -650,61 +1128,522 @@ export class PullRequestManagerModal extends Modal {
 }
 
 /**
- * SaveChangesModal - Prompts user when uncommitted changes are detected
- * Provides options to save as draft (local commit) or save & push to GitHub
+ * PullRequestReviewModal - Reviews a pull request without leaving Obsidian
+ * Files: steps through changed files as prose diffs (arrow keys move between files); click a line to comment on it.
+ * Conversation: the PR description, general comments and every review thread.
  */
-export class SaveChangesModal extends Modal {
+export class PullRequestReviewModal extends Modal {
 	plugin: any;
-	currentBranch: string;
-
-	constructor(app: App, plugin: any) {
+	pr: any;
+	tab: 'files' | 'conversation';
+	files: PullRequestFile[] = [];
+	threads: ReviewThread[] = [];
+	currentIndex = 0;
+	mergeBase = '';
+	diffCache: Map<string, FileDiff> = new Map();
+	// Set while the files tab is showing
+	stepFile: ((delta: number) => void) | null = null;
+
+	constructor(app: App, plugin: any, pr: any, tab: 'files' | 'conversation' = 'files') {
 		super(app);
 		this.plugin = plugin;
-		this.currentBranch = plugin.settings.currentBranch;
+		this.pr = pr;
+		this.tab = tab;
 	}
 
-	onOpen() {
+	async onOpen() {
 		const { contentEl } = this;
 		contentEl.empty();
+		this.modalEl.addClass('git-pr-review-modal');
 
-		contentEl.createEl('h2', { text: '💾 Save Your Changes' });
-		contentEl.createEl('p', { 
-			text: `You have uncommitted changes on branch "${this.currentBranch}". What would you like to do?`
+		contentEl.createEl('h2', { text: `🔍 Review #${this.pr.number}: ${this.pr.title}` });
+		contentEl.createEl('p', {
+			text: `${this.pr.head.ref} → ${this.pr.base.ref} · by ${this.pr.user.login}`,
+			attr: { style: 'color: var(--text-muted); font-size: 0.9em;' }
 		});
 
-		// Show current changes
-		this.displayChanges(contentEl);
+		const loadingEl = contentEl.createEl('p', { text: '🔄 Loading pull request...' });
+		const files: PullRequestFile[] | null = await this.plugin.gitOps.getPullRequestFiles(this.pr.number);
+		this.mergeBase = await this.plugin.gitOps.getPullRequestMergeBase(this.pr);
+		this.threads = await this.plugin.gitOps.getReviewThreads(this.pr.number) || [];
+		loadingEl.remove();
 
-		// Commit message input
-		const messageContainer = contentEl.createDiv();
-		messageContainer.createEl('h3', { text: 'Commit Message' });
-		
-		let commitMessage = `Update notes from ${this.currentBranch}`;
-		const messageInput = messageContainer.createEl('textarea');
-		messageInput.style.cssText = 'width: 100%; height: 60px; margin: 10px 0;';
-		messageInput.placeholder = 'Describe your changes...';
-		messageInput.value = commitMessage;
-		messageInput.addEventListener('input', () => {
-			commitMessage = messageInput.value;
+		if (!files) {
+			contentEl.createEl('p', {
+				text: '❌ Failed to load the changed files. Please check your connection and token.',
+				attr: { style: 'color: var(--text-error);' }
+			});
+			return;
+		}
+		this.files = files;
+
+		const tabsEl = contentEl.createDiv({ cls: 'git-pr-review-tabs' });
+		const filesTab = tabsEl.createEl('button', { text: `📄 Files (${files.length})` });
+		const conversationTab = tabsEl.createEl('button', { text: '💬 Conversation' });
+		const bodyEl = contentEl.createDiv();
+
+		const showTab = (tab: 'files' | 'conversation') => {
+			this.tab = tab;
+			filesTab.toggleClass('is-active', tab === 'files');
+			conversationTab.toggleClass('is-active', tab === 'conversation');
+			bodyEl.empty();
+			this.stepFile = null;
+			if (tab === 'files') {
+				this.renderFilesTab(bodyEl);
+			} else {
+				this.renderConversationTab(bodyEl);
+			}
+		};
+		filesTab.onclick = () => showTab('files');
+		conversationTab.onclick = () => showTab('conversation');
+
+		this.scope.register([], 'ArrowLeft', () => {
+			// Leave arrow keys alone while typing a comment
+			if (!this.stepFile || document.activeElement instanceof HTMLTextAreaElement) {
+				return true;
+			}
+			this.stepFile(-1);
+			return false;
+		});
+		this.scope.register([], 'ArrowRight', () => {
+			if (!this.stepFile || document.activeElement instanceof HTMLTextAreaElement) {
+				return true;
+			}
+			this.stepFile(1);
+			return false;
 		});
 
-		// Action buttons
 		const buttonContainer = contentEl.createDiv();
-		buttonContainer.style.cssText = 'display: flex; gap: 10px; margin-top: 20px; justify-content: space-between;';
+		buttonContainer.style.cssText = 'display: flex; gap: 10px; margin-top: 20px; justify-content: flex-end;';
+		const submitReviewButton = buttonContainer.createEl('button', { text: '📝 Submit Review' });
+		submitReviewButton.onclick = () => {
+			new SubmitReviewModal(this.app, this.plugin, this.pr).open();
+		};
+		const viewButton = buttonContainer.createEl('button', { text: '👀 View on GitHub' });
+		viewButton.onclick = () => {
+			window.open(this.tab === 'files' ? `${this.pr.html_url}/files` : this.pr.html_url, '_blank');
+		};
 
-		// Left side - Cancel
-		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
-		cancelButton.style.cssText = 'background: var(--background-modifier-border);';
-		cancelButton.onclick = () => this.close();
+		showTab(this.tab);
+	}
 
-		// Right side - Save options
-		const saveContainer = buttonContainer.createDiv();
-		saveContainer.style.cssText = 'display: flex; gap: 10px;';
+	renderFilesTab(container: HTMLElement) {
+		if (this.files.length === 0) {
+			container.createEl('p', { text: '✨ This pull request doesn\'t change any files.' });
+			return;
+		}
 
-		const draftButton = saveContainer.createEl('button', { text: '📝 Save as Draft' });
-		draftButton.style.cssText = 'background: var(--color-orange); color: white;';
-		draftButton.onclick = async () => {
-			await this.saveAsDraft(commitMessage);
+		// File stepper
+		const navEl = container.createDiv({ cls: 'git-pr-review-nav' });
+		const prevButton = navEl.createEl('button', { text: '◀ Previous' });
+		const fileSelect = navEl.createEl('select');
+		this.files.forEach((file, index) => {
+			const comments = this.threads.filter(thread => thread.path === file.path).length;
+			fileSelect.createEl('option', {
+				text: `${this.getStatusIcon(file.status)} ${file.path} (+${file.additions} −${file.deletions})${comments > 0 ? ` 💬 ${comments}` : ''}`,
+				value: String(index)
+			});
+		});
+		const nextButton = navEl.createEl('button', { text: 'Next ▶' });
+		const counterEl = navEl.createSpan({ cls: 'git-pr-review-counter' });
+
+		const fileEl = container.createDiv({ cls: 'git-pr-review-file' });
+
+		const showFile = async (index: number) => {
+			if (index < 0 || index >= this.files.length) {
+				return;
+			}
+			this.currentIndex = index;
+			fileSelect.value = String(index);
+			prevButton.disabled = index === 0;
+			nextButton.disabled = index === this.files.length - 1;
+			counterEl.setText(`File ${index + 1} of ${this.files.length}`);
+			await this.renderFile(fileEl, index);
+		};
+
+		prevButton.onclick = () => showFile(this.currentIndex - 1);
+		nextButton.onclick = () => showFile(this.currentIndex + 1);
+		fileSelect.onchange = () => showFile(parseInt(fileSelect.value));
+		this.stepFile = delta => showFile(this.currentIndex + delta);
+
+		showFile(this.currentIndex);
+	}
+
+	async renderFile(container: HTMLElement, index: number) {
+		const file = this.files[index];
+		container.empty();
+
+		const headerEl = container.createDiv({ cls: 'git-pr-review-file-header' });
+		headerEl.createEl('strong', { text: file.previousPath ? `${file.previousPath} → ${file.path}` : file.path });
+		headerEl.createSpan({ text: `${this.getStatusIcon(file.status)} ${file.status} · +${file.additions} −${file.deletions}`, cls: 'git-pr-review-file-stats' });
+
+		let diff = this.diffCache.get(file.path);
+		if (!diff) {
+			const loadingEl = container.createEl('p', { text: '🔄 Loading diff...' });
+			const loaded: FileDiff | null = await this.plugin.gitOps.getPullRequestFileDiff(this.pr.number, this.mergeBase, file);
+			loadingEl.remove();
+			// The reviewer may have stepped on while this loaded
+			if (this.currentIndex !== index) {
+				return;
+			}
+			if (!loaded) {
+				// Not cached, so stepping back to this file tries again
+				container.createEl('p', {
+					text: '❌ Failed to load this file\'s changes. Step away and back to try again.',
+					attr: { style: 'color: var(--text-error);' }
+				});
+				return;
+			}
+			diff = loaded;
+			this.diffCache.set(file.path, diff);
+		}
+
+		const fileThreads = this.threads.filter(thread => thread.path === file.path);
+		const placed: Set<ReviewThread> = new Set();
+		const rerender = async () => {
+			await this.reloadThreads();
+			if (this.currentIndex === index) {
+				this.renderFile(container, index);
+			}
+		};
+
+		SaveChangesModal.renderDiff(container.createDiv({ cls: 'git-pr-review-diff' }), diff, {
+			onLine: (lineEl, position) => {
+				// Comment on the PR's version of a line where it has one
+				const side = position.newLine !== null ? 'RIGHT' : 'LEFT';
+				const line = position.newLine !== null ? position.newLine : position.oldLine;
+				if (line === null) {
+					return;
+				}
+
+				let anchorEl: HTMLElement = lineEl;
+				fileThreads
+					.filter(thread => thread.side === side && thread.line === line)
+					.forEach(thread => {
+						placed.add(thread);
+						const threadEl = createDiv({ cls: 'git-review-thread' });
+						anchorEl.insertAdjacentElement('afterend', threadEl);
+						anchorEl = threadEl;
+						this.renderThread(threadEl, thread, rerender);
+					});
+
+				lineEl.addClass('git-diff-line-commentable');
+				lineEl.setAttribute('aria-label', `Comment on line ${line}`);
+				lineEl.onclick = () => {
+					if (lineEl.nextElementSibling && lineEl.nextElementSibling.hasClass('git-review-new-comment')) {
+						return;
+					}
+					const formEl = createDiv({ cls: 'git-review-thread git-review-new-comment' });
+					lineEl.insertAdjacentElement('afterend', formEl);
+					this.renderCommentForm(formEl, '💬 Comment', async body => {
+						const posted = await this.plugin.gitOps.addLineComment(this.pr, file.path, line, side, body);
+						if (posted) {
+							await rerender();
+						}
+						return posted;
+					}, () => formEl.remove());
+				};
+			}
+		});
+
+		// Threads on lines that have since changed, or on unchanged lines the diff collapsed
+		const unplaced = fileThreads.filter(thread => !placed.has(thread));
+		if (unplaced.length > 0) {
+			container.createEl('h4', { text: 'Other comments on this file' });
+			unplaced.forEach(thread => {
+				const threadEl = container.createDiv({ cls: 'git-review-thread' });
+				threadEl.createDiv({
+					text: thread.line === null ? 'Outdated' : `Line ${thread.line}`,
+					cls: 'git-review-thread-location'
+				});
+				this.renderThread(threadEl, thread, rerender);
+			});
+		}
+	}
+
+	async renderConversationTab(container: HTMLElement) {
+		if (this.pr.body && this.pr.body.trim()) {
+			const descEl = container.createDiv({ cls: 'git-review-comment' });
+			descEl.createDiv({ text: `${this.pr.user.login} · ${new Date(this.pr.created_at).toLocaleString()}`, cls: 'git-review-comment-meta' });
+			descEl.createDiv({ text: this.pr.body, cls: 'git-review-comment-body' });
+		}
+
+		const loadingEl = container.createEl('p', { text: '🔄 Loading conversation...' });
+		const comments: PullRequestComment[] | null = await this.plugin.gitOps.getPullRequestConversation(this.pr.number);
+		loadingEl.remove();
+		if (this.tab !== 'conversation') {
+			return;
+		}
+		if (!comments) {
+			container.createEl('p', {
+				text: '❌ Failed to load the conversation.',
+				attr: { style: 'color: var(--text-error);' }
+			});
+			return;
+		}
+
+		const refresh = async () => {
+			await this.reloadThreads();
+			if (this.tab === 'conversation') {
+				container.empty();
+				this.renderConversationTab(container);
+			}
+		};
+
+		// General comments and review threads, in the order they were started
+		const timeline = [
+			...comments.map(comment => ({ createdAt: comment.createdAt, comment, thread: null as ReviewThread | null })),
+			...this.threads.map(thread => ({ createdAt: thread.comments[0].createdAt, comment: null as PullRequestComment | null, thread }))
+		].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+		if (timeline.length === 0) {
+			container.createEl('p', { text: 'No comments yet.', attr: { style: 'color: var(--text-muted);' } });
+		}
+		timeline.forEach(({ comment, thread }) => {
+			if (comment) {
+				this.renderComment(container, comment);
+			} else if (thread) {
+				const threadEl = container.createDiv({ cls: 'git-review-thread' });
+				threadEl.createDiv({
+					text: `📄 ${thread.path}${thread.line === null ? ' (outdated)' : `, line ${thread.line}`}`,
+					cls: 'git-review-thread-location'
+				});
+				this.renderThread(threadEl, thread, refresh);
+			}
+		});
+
+		container.createEl('h4', { text: 'Add a comment' });
+		this.renderCommentForm(container.createDiv(), '💬 Comment', async body => {
+			const posted = await this.plugin.gitOps.addPullRequestComment(this.pr.number, body);
+			if (posted) {
+				await refresh();
+			}
+			return posted;
+		});
+	}
+
+	renderThread(container: HTMLElement, thread: ReviewThread, onReplied: () => Promise<void>) {
+		thread.comments.forEach(comment => this.renderComment(container, comment));
+
+		const replyButton = container.createEl('button', { text: '↩️ Reply', cls: 'git-review-reply' });
+		replyButton.onclick = () => {
+			replyButton.remove();
+			this.renderCommentForm(container.createDiv(), '↩️ Reply', async body => {
+				const posted = await this.plugin.gitOps.replyToReviewThread(this.pr.number, thread, body);
+				if (posted) {
+					await onReplied();
+				}
+				return posted;
+			});
+		};
+	}
+
+	renderComment(container: HTMLElement, comment: PullRequestComment) {
+		const commentEl = container.createDiv({ cls: 'git-review-comment' });
+		const metaEl = commentEl.createDiv({ cls: 'git-review-comment-meta' });
+		metaEl.createSpan({ text: `${comment.author} · ${new Date(comment.createdAt).toLocaleString()}` });
+		const linkEl = metaEl.createEl('a', { text: '↗', href: comment.htmlUrl });
+		linkEl.setAttribute('aria-label', 'Open on GitHub');
+		commentEl.createDiv({ text: comment.body, cls: 'git-review-comment-body' });
+	}
+
+	/**
+	 * Textarea with a submit button; `submit` resolves true once the comment is posted
+	 */
+	renderCommentForm(container: HTMLElement, submitText: string, submit: (body: string) => Promise<boolean>, cancel?: () => void) {
+		const input = container.createEl('textarea', { cls: 'git-review-input' });
+		input.placeholder = 'Leave a comment...';
+
+		const buttonContainer = container.createDiv();
+		buttonContainer.style.cssText = 'display: flex; gap: 8px; justify-content: flex-end;';
+		if (cancel) {
+			const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+			cancelButton.onclick = cancel;
+		}
+		const submitButton = buttonContainer.createEl('button', { text: submitText });
+		submitButton.style.cssText = 'background: var(--interactive-accent); color: white;';
+		submitButton.onclick = async () => {
+			const body = input.value.trim();
+			if (!body) {
+				new Notice('Please write a comment first');
+				return;
+			}
+			submitButton.disabled = true;
+			if (!(await submit(body))) {
+				submitButton.disabled = false;
+			}
+		};
+		input.focus();
+	}
+
+	async reloadThreads() {
+		const threads = await this.plugin.gitOps.getReviewThreads(this.pr.number);
+		if (threads) {
+			this.threads = threads;
+		}
+	}
+
+	getStatusIcon(status: string): string {
+		switch (status) {
+			case 'added': return '🆕';
+			case 'removed': return '🗑️';
+			case 'renamed': return '📝';
+			default: return '✏️';
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * SubmitReviewModal - Approve a pull request, request changes, or comment with a summary
+ */
+export class SubmitReviewModal extends Modal {
+	plugin: any;
+	pr: any;
+	onSubmitted?: () => void;
+
+	constructor(app: App, plugin: any, pr: any, onSubmitted?: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.pr = pr;
+		this.onSubmitted = onSubmitted;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h3', { text: `📝 Review PR #${this.pr.number}` });
+		contentEl.createEl('p', { text: this.pr.title });
+
+		let event: ReviewEvent = 'COMMENT';
+		const events: { value: ReviewEvent; label: string; desc: string }[] = [
+			{ value: 'COMMENT', label: '💬 Comment', desc: 'General feedback without approving' },
+			{ value: 'APPROVE', label: '✅ Approve', desc: 'Ready to merge' },
+			{ value: 'REQUEST_CHANGES', label: '✋ Request changes', desc: 'Must be addressed before merging' }
+		];
+
+		const eventContainer = contentEl.createDiv();
+		eventContainer.style.cssText = 'display: flex; flex-direction: column; gap: 8px; margin: 10px 0;';
+		events.forEach(option => {
+			const radio = eventContainer.createEl('label');
+			radio.style.cssText = 'display: flex; align-items: center; gap: 8px; cursor: pointer;';
+
+			const input = radio.createEl('input');
+			input.type = 'radio';
+			input.name = 'reviewEvent';
+			input.value = option.value;
+			input.checked = option.value === event;
+			input.onchange = () => { event = option.value; };
+
+			const labelText = radio.createEl('div');
+			labelText.createEl('strong', { text: option.label });
+			labelText.createEl('br');
+			labelText.createEl('small', { text: option.desc, attr: { style: 'color: var(--text-muted);' } });
+		});
+
+		contentEl.createEl('h4', { text: 'Summary' });
+		const summaryInput = contentEl.createEl('textarea', { cls: 'git-review-input' });
+		summaryInput.placeholder = 'Overall feedback (optional when approving)';
+
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.cssText = 'display: flex; gap: 10px; margin-top: 20px; justify-content: flex-end;';
+
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.onclick = () => this.close();
+
+		const submitButton = buttonContainer.createEl('button', { text: '📝 Submit Review' });
+		submitButton.style.cssText = 'background: var(--interactive-accent); color: white;';
+		submitButton.onclick = async () => {
+			const body = summaryInput.value.trim();
+			// GitHub needs a summary for everything but an approval
+			if (!body && event !== 'APPROVE') {
+				new Notice('Please write a summary for your review');
+				return;
+			}
+
+			submitButton.disabled = true;
+			if (await this.plugin.gitOps.submitReview(this.pr.number, event, body)) {
+				this.close();
+				if (this.onSubmitted) {
+					this.onSubmitted();
+				}
+			} else {
+				submitButton.disabled = false;
+			}
+		};
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * SaveChangesModal - Prompts user when uncommitted changes are detected
+ * Provides options to save as draft (local commit) or save & push to GitHub
+ */
+export class SaveChangesModal extends Modal {
+	plugin: any;
+	currentBranch: string;
+	changedFiles: ChangedFile[] = [];
+	selectedPaths: Set<string> = new Set();
+	expandedPaths: Set<string> = new Set();
+	diffCache: Map<string, FileDiff> = new Map();
+
+	constructor(app: App, plugin: any) {
+		super(app);
+		this.plugin = plugin;
+		this.currentBranch = plugin.settings.currentBranch;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: '💾 Save Your Changes' });
+		contentEl.createEl('p', { 
+			text: `You have uncommitted changes on branch "${this.currentBranch}". What would you like to do?`
+		});
+
+		// Show current changes (rendered into a placeholder so they stay above the message box)
+		this.displayChanges(contentEl.createDiv());
+
+		// Commit message input
+		const messageContainer = contentEl.createDiv();
+		messageContainer.createEl('h3', { text: 'Commit Message' });
+		
+		let commitMessage = `Update notes from ${this.currentBranch}`;
+		const messageInput = messageContainer.createEl('textarea');
+		messageInput.style.cssText = 'width: 100%; height: 60px; margin: 10px 0;';
+		messageInput.placeholder = 'Describe your changes...';
+		messageInput.value = commitMessage;
+		messageInput.addEventListener('input', () => {
+			commitMessage = messageInput.value;
+		});
+
+		// Action buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.cssText = 'display: flex; gap: 10px; margin-top: 20px; justify-content: space-between;';
+
+		// Left side - Cancel
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.style.cssText = 'background: var(--background-modifier-border);';
+		cancelButton.onclick = () => this.close();
+
+		// Right side - Save options
+		const saveContainer = buttonContainer.createDiv();
+		saveContainer.style.cssText = 'display: flex; gap: 10px;';
+
+		const draftButton = saveContainer.createEl('button', { text: '📝 Save as Draft' });
+		draftButton.style.cssText = 'background: var(--color-orange); color: white;';
+		draftButton.onclick = async () => {
+			await this.saveAsDraft(commitMessage);
 		};
 
 		const pushButton = saveContainer.createEl('button', { text: '🚀 Save & Push' });
@@ -716,43 +1655,193 @@ export class SaveChangesModal extends Modal {
 
 	async displayChanges(contentEl: HTMLElement) {
 		try {
-			const adapter = this.app.vault.adapter;
-			if (!(adapter instanceof FileSystemAdapter)) {
+			this.changedFiles = await this.plugin.gitOps.getChangedFiles();
+			if (this.changedFiles.length === 0) {
 				return;
 			}
 
-			const vaultPath = (adapter as any).basePath || '';
-			const { stdout: statusOutput } = await execAsync('git status --porcelain', { cwd: vaultPath });
-			
-			if (statusOutput.trim()) {
-				const changesDiv = contentEl.createDiv();
-				changesDiv.style.cssText = `
-					background: var(--background-secondary);
-					border: 1px solid var(--background-modifier-border);
-					border-radius: 6px;
-					padding: 12px;
-					margin: 15px 0;
-					max-height: 150px;
-					overflow-y: auto;
-				`;
-				
-				changesDiv.createEl('h4', { text: 'Changed Files:' });
-				const changesList = changesDiv.createEl('ul');
-				const changes = statusOutput.trim().split('\n').slice(0, 10);
-				changes.forEach(change => {
-					const listItem = changesList.createEl('li');
-					listItem.textContent = change.trim();
-					listItem.style.fontFamily = 'var(--font-monospace)';
-					listItem.style.fontSize = '0.9em';
+			// Everything is selected by default, matching the old "commit all" behaviour
+			this.selectedPaths = new Set(this.changedFiles.map(file => file.path));
+			this.renderChangeList(contentEl);
+		} catch (error) {
+			console.error('Failed to display changes:', error);
+		}
+	}
+
+	renderChangeList(contentEl: HTMLElement) {
+		contentEl.empty();
+
+		const changesDiv = contentEl.createDiv();
+		changesDiv.style.cssText = `
+			background: var(--background-secondary);
+			border: 1px solid var(--background-modifier-border);
+			border-radius: 6px;
+			padding: 12px;
+			margin: 15px 0;
+			max-height: 250px;
+			overflow-y: auto;
+		`;
+
+		const headerEl = changesDiv.createDiv();
+		headerEl.style.cssText = 'display: flex; justify-content: space-between; align-items: center;';
+		headerEl.createEl('h4', {
+			text: `Changed Files (${this.selectedPaths.size} of ${this.changedFiles.length} selected)`,
+			attr: { style: 'margin: 0;' }
+		});
+
+		const selectAllLabel = headerEl.createEl('label');
+		selectAllLabel.style.cssText = 'display: flex; align-items: center; gap: 6px; cursor: pointer;';
+		const selectAll = selectAllLabel.createEl('input', { type: 'checkbox' });
+		this.setCheckboxState(selectAll, this.changedFiles);
+		selectAllLabel.appendText('Select all');
+		selectAll.onchange = () => {
+			this.toggleFiles(this.changedFiles, selectAll.checked);
+			this.renderChangeList(contentEl);
+		};
+
+		// Group files by folder so related notes can be picked together
+		const groups = new Map<string, ChangedFile[]>();
+		this.changedFiles.forEach(file => {
+			const slash = file.path.lastIndexOf('/');
+			const folder = slash === -1 ? '' : file.path.substring(0, slash);
+			const group = groups.get(folder) || [];
+			group.push(file);
+			groups.set(folder, group);
+		});
+
+		[...groups.keys()].sort().forEach(folder => {
+			const files = groups.get(folder) || [];
+			const groupEl = changesDiv.createDiv();
+			groupEl.style.cssText = 'margin-top: 8px;';
+
+			const folderLabel = groupEl.createEl('label');
+			folderLabel.style.cssText = 'display: flex; align-items: center; gap: 6px; font-weight: bold; cursor: pointer;';
+			const folderCheckbox = folderLabel.createEl('input', { type: 'checkbox' });
+			this.setCheckboxState(folderCheckbox, files);
+			folderLabel.appendText(`📁 ${folder || '(vault root)'}`);
+			folderCheckbox.onchange = () => {
+				this.toggleFiles(files, folderCheckbox.checked);
+				this.renderChangeList(contentEl);
+			};
+
+			files.forEach(file => {
+				const fileRow = groupEl.createDiv();
+				fileRow.style.cssText = 'display: flex; align-items: center; gap: 6px; margin-left: 20px; font-family: var(--font-monospace); font-size: 0.9em;';
+				const fileCheckbox = fileRow.createEl('input', { type: 'checkbox' });
+				fileCheckbox.checked = this.selectedPaths.has(file.path);
+				fileCheckbox.onchange = () => {
+					this.toggleFiles([file], fileCheckbox.checked);
+					this.renderChangeList(contentEl);
+				};
+				const status = SaveChangesModal.getStatusInfo(file);
+				fileRow.createSpan({ text: status.icon, attr: { 'aria-label': status.label } });
+
+				// Clicking the name expands a diff against HEAD
+				const expanded = this.expandedPaths.has(file.path);
+				const name = file.path.substring(folder ? folder.length + 1 : 0);
+				const nameEl = fileRow.createSpan({
+					text: `${expanded ? '▾' : '▸'} ${file.origPath ? `${file.origPath} → ${name}` : name}`,
+					attr: { 'aria-label': 'Show changes' }
 				});
-				
-				if (statusOutput.trim().split('\n').length > 10) {
-					changesDiv.createEl('p', { text: '...and more changes' });
+				nameEl.style.cursor = 'pointer';
+				nameEl.onclick = () => {
+					if (expanded) {
+						this.expandedPaths.delete(file.path);
+					} else {
+						this.expandedPaths.add(file.path);
+					}
+					this.renderChangeList(contentEl);
+				};
+
+				if (expanded) {
+					const diffContainer = groupEl.createDiv();
+					diffContainer.style.marginLeft = '20px';
+					this.renderFileDiff(diffContainer, file);
 				}
+			});
+		});
+	}
+
+	async renderFileDiff(container: HTMLElement, file: ChangedFile) {
+		let diff = this.diffCache.get(file.path);
+		if (!diff) {
+			const loadingEl = container.createEl('p', { text: '🔄 Loading diff...' });
+			diff = await this.plugin.gitOps.getFileDiff(file) as FileDiff;
+			this.diffCache.set(file.path, diff);
+			loadingEl.remove();
+		}
+
+		SaveChangesModal.renderDiff(container, diff);
+	}
+
+	static renderDiff(container: HTMLElement, diff: FileDiff, options: ProseDiffOptions = {}) {
+		if (diff.binary) {
+			// Attachments can't be diffed meaningfully; summarise the size change instead
+			let summary = `📎 Binary file modified: ${formatBytes(diff.oldSize || 0)} → ${formatBytes(diff.newSize || 0)}`;
+			if (diff.oldSize === null) summary = `📎 Binary file added (${formatBytes(diff.newSize || 0)})`;
+			if (diff.newSize === null) summary = `📎 Binary file deleted (was ${formatBytes(diff.oldSize || 0)})`;
+			container.createDiv({ text: summary, cls: 'git-diff-collapsed' });
+			return;
+		}
+
+		renderProseDiff(container, diff.oldText || '', diff.newText || '', {
+			wordLevel: diff.path.endsWith('.md'),
+			...options
+		});
+	}
+
+	setCheckboxState(checkbox: HTMLInputElement, files: ChangedFile[]) {
+		const selected = files.filter(file => this.selectedPaths.has(file.path)).length;
+		checkbox.checked = selected === files.length;
+		checkbox.indeterminate = selected > 0 && selected < files.length;
+	}
+
+	toggleFiles(files: ChangedFile[], selected: boolean) {
+		files.forEach(file => {
+			if (selected) {
+				this.selectedPaths.add(file.path);
+			} else {
+				this.selectedPaths.delete(file.path);
 			}
-		} catch (error) {
-			console.error('Failed to display changes:', error);
+		});
+	}
+
+	static getStatusInfo(file: ChangedFile): { icon: string; label: string } {
+		const codes = file.index + file.workTree;
+		if (codes.includes('U') || codes === 'AA' || codes === 'DD') return { icon: '⚠️', label: 'Conflicted' };
+		if (codes === '??') return { icon: '🆕', label: 'New file' };
+		if (codes.includes('D')) return { icon: '🗑️', label: 'Deleted' };
+		if (file.index === 'R') return { icon: '🔀', label: 'Renamed' };
+		if (file.index === 'A') return { icon: '➕', label: 'Added' };
+		return { icon: '✏️', label: 'Modified' };
+	}
+
+	/**
+	 * Paths to hand to git for the current selection; renames need their old path too
+	 */
+	getSelectedPaths(): string[] {
+		const paths: string[] = [];
+		this.changedFiles
+			.filter(file => this.selectedPaths.has(file.path))
+			.forEach(file => {
+				paths.push(file.path);
+				if (file.origPath) {
+					paths.push(file.origPath);
+				}
+			});
+		return paths;
+	}
+
+	/**
+	 * Leave edit mode after saving, unless unselected changes are still waiting on this branch
+	 */
+	async finishSave() {
+		if (await this.plugin.gitOps.checkForUncommittedChanges()) {
+			new Notice(`✏️ Unselected changes remain on ${this.currentBranch}; staying in edit mode`);
+		} else {
+			await this.plugin.readonlyOps.forceEnableReadOnlyMode();
 		}
+		this.close();
 	}
 
 	async saveAsDraft(message: string) {
@@ -762,17 +1851,22 @@ export class SaveChangesModal extends Modal {
 		}
 
 		try {
-			// Double-check we're not on main branch
-			if (this.currentBranch === this.plugin.settings.mainBranch) {
-				new Notice(`🚫 Cannot commit to ${this.plugin.settings.mainBranch}. Please switch to a working branch first.`);
+			// Double-check we're not on a protected branch
+			if (this.plugin.gitOps.isProtectedBranch(this.currentBranch)) {
+				new Notice(`🚫 Cannot commit to protected branch ${this.currentBranch}. Please switch to a working branch first.`);
+				return;
+			}
+
+			const paths = this.getSelectedPaths();
+			if (paths.length === 0) {
+				new Notice('Please select at least one file to save');
 				return;
 			}
 
-			const success = await this.plugin.gitOps.commitChanges(message);
+			const success = await this.plugin.gitOps.commitChanges(message, paths);
 			if (success) {
 				new Notice(`💾 Changes saved as draft on ${this.currentBranch}`);
-				await this.plugin.readonlyOps.forceEnableReadOnlyMode();
-				this.close();
+				await this.finishSave();
 			} else {
 				new Notice('Failed to save changes as draft');
 			}
@@ -789,14 +1883,20 @@ export class SaveChangesModal extends Modal {
 		}
 
 		try {
-			// Double-check we're not on main branch
-			if (this.currentBranch === this.plugin.settings.mainBranch) {
-				new Notice(`🚫 Cannot commit to ${this.plugin.settings.mainBranch}. Please switch to a working branch first.`);
+			// Double-check we're not on a protected branch
+			if (this.plugin.gitOps.isProtectedBranch(this.currentBranch)) {
+				new Notice(`🚫 Cannot commit to protected branch ${this.currentBranch}. Please switch to a working branch first.`);
+				return;
+			}
+
+			const paths = this.getSelectedPaths();
+			if (paths.length === 0) {
+				new Notice('Please select at least one file to save');
 				return;
 			}
 
 			// First commit the changes
-			const commitSuccess = await this.plugin.gitOps.commitChanges(message);
+			const commitSuccess = await this.plugin.gitOps.commitChanges(message, paths);
 			if (!commitSuccess) {
 				new Notice('Failed to commit changes');
 				return;
@@ -821,8 +1921,7 @@ export class SaveChangesModal extends Modal {
 				}, 1000);
 			}
 
-			await this.plugin.readonlyOps.forceEnableReadOnlyMode();
-			this.close();
+			await this.finishSave();
 		} catch (error) {
 			new Notice('Error saving and pushing changes');
 			console.error('Save and push failed:', error);
@@ -843,6 +1942,7 @@ export class CreatePRModal extends Modal {
 	plugin: any;
 	branchName: string;
 	defaultMessage: string;
+	options: Required<Omit<PullRequestOptions, 'base'>> = { draft: false, reviewers: [], teamReviewers: [], labels: [], assignees: [], milestone: null };
 
 	constructor(app: App, plugin: any, branchName: string, defaultMessage: string) {
 		super(app);
@@ -888,8 +1988,12 @@ export class CreatePRModal extends Modal {
 			});
 		}
 
+		// Branches made with "Propose an edit" are titled after the note they change
+		const proposedNote: string | undefined = this.plugin.settings.editProposals[this.branchName];
+		const proposedTitle = proposedNote ? (proposedNote.split('/').pop() || proposedNote).replace(/\.md$/, '') : null;
+
 		// PR Title
-		let prTitle = `${this.branchName}: ${this.defaultMessage}`;
+		let prTitle = proposedTitle ? `Edit: ${proposedTitle}` : `${this.branchName}: ${this.defaultMessage}`;
 		const titleContainer = contentEl.createDiv();
 		titleContainer.createEl('h3', { text: 'Pull Request Title' });
 		const titleInput = titleContainer.createEl('input');
@@ -900,17 +2004,46 @@ export class CreatePRModal extends Modal {
 		});
 
 		// PR Description
-		let prDescription = `Changes made in branch ${this.branchName}:\n\n${this.defaultMessage}`;
+		let prDescription = proposedNote
+			? `Proposed edit to ${proposedNote}:\n\n${this.defaultMessage}`
+			: `Changes made in branch ${this.branchName}:\n\n${this.defaultMessage}`;
 		const descContainer = contentEl.createDiv();
 		descContainer.createEl('h3', { text: 'Description' });
 		const descInput = descContainer.createEl('textarea');
 		descInput.style.cssText = 'width: 100%; height: 80px; margin: 10px 0;';
 		descInput.value = prDescription;
+		let descriptionEdited = false;
 		descInput.addEventListener('input', () => {
 			prDescription = descInput.value;
+			descriptionEdited = true;
 		});
 
-		// Action buttons
+		// The repository's pull request template replaces the generated description
+		this.renderTemplatePicker(descContainer.createDiv(), body => {
+			prDescription = body;
+			descInput.value = body;
+		}, () => descriptionEdited);
+
+		// Draft, reviewers, labels, assignees and milestone
+		const optionsContainer = contentEl.createDiv();
+		new Setting(optionsContainer)
+			.setName('Draft')
+			.setDesc('Open as a draft that can\'t be merged until it\'s marked ready for review')
+			.addToggle(toggle => toggle
+				.setValue(false)
+				.onChange(value => {
+					this.options.draft = value;
+				}));
+		if (existingToken) {
+			this.renderPickers(optionsContainer.createDiv());
+		} else {
+			optionsContainer.createEl('p', {
+				text: 'Save a GitHub token to pick reviewers, labels and assignees.',
+				attr: { style: 'color: var(--text-muted); font-size: 0.9em;' }
+			});
+		}
+
+		// Action buttons
 		const buttonContainer = contentEl.createDiv();
 		buttonContainer.style.cssText = 'display: flex; gap: 10px; margin-top: 20px; justify-content: flex-end;';
 
@@ -937,7 +2070,7 @@ export class CreatePRModal extends Modal {
 					this.plugin.setRepositoryToken(this.plugin.settings.repositoryUrl, finalToken);
 				}
 
-				const success = await this.plugin.gitOps.createPullRequest(this.branchName, prTitle, prDescription, finalToken);
+				const success = await this.plugin.gitOps.createPullRequest(this.branchName, prTitle, prDescription, finalToken, this.options);
 				if (success) {
 					this.close();
 				}
@@ -948,6 +2081,672 @@ export class CreatePRModal extends Modal {
 		};
 	}
 
+	async renderTemplatePicker(container: HTMLElement, apply: (body: string) => void, isEdited: () => boolean) {
+		const templates: PullRequestTemplate[] = await this.plugin.gitOps.getPullRequestTemplates();
+		if (templates.length === 0) {
+			return;
+		}
+		if (!isEdited()) {
+			apply(templates[0].body);
+		}
+		if (templates.length > 1) {
+			new Setting(container)
+				.setName('Template')
+				.addDropdown(dropdown => {
+					templates.forEach((template, index) => dropdown.addOption(String(index), template.name));
+					dropdown.onChange(value => apply(templates[parseInt(value)].body));
+				});
+		}
+	}
+
+	async renderPickers(container: HTMLElement) {
+		const loadingEl = container.createEl('p', { text: '🔄 Loading reviewers and labels...' });
+		const choices: PullRequestFormOptions = await this.plugin.gitOps.getPullRequestFormOptions();
+		loadingEl.remove();
+
+		this.renderPicker(container, '👥 Reviewers', choices.collaborators.map(login => ({ value: login, label: login })), this.options.reviewers);
+		this.renderPicker(container, '👥 Team Reviewers', choices.teams.map(team => ({ value: team.slug, label: team.name })), this.options.teamReviewers);
+		this.renderPicker(container, '🏷️ Labels', choices.labels.map(label => ({ value: label, label })), this.options.labels);
+		this.renderPicker(container, '🙋 Assignees', choices.assignees.map(login => ({ value: login, label: login })), this.options.assignees);
+
+		if (choices.milestones.length > 0) {
+			new Setting(container)
+				.setName('🎯 Milestone')
+				.addDropdown(dropdown => {
+					dropdown.addOption('', 'None');
+					choices.milestones.forEach(milestone => dropdown.addOption(String(milestone.number), milestone.title));
+					dropdown.onChange(value => {
+						this.options.milestone = value ? parseInt(value) : null;
+					});
+				});
+		}
+	}
+
+	/**
+	 * Collapsible checkbox list; ticked values are kept in `selected`
+	 */
+	renderPicker(container: HTMLElement, title: string, items: { value: string; label: string }[], selected: string[]) {
+		if (items.length === 0) {
+			return;
+		}
+
+		const pickerEl = container.createEl('details', { cls: 'git-pr-picker' });
+		const summaryEl = pickerEl.createEl('summary', { text: title });
+		const listEl = pickerEl.createDiv({ cls: 'git-pr-picker-list' });
+		items.forEach(item => {
+			const label = listEl.createEl('label');
+			const checkbox = label.createEl('input', { type: 'checkbox' });
+			label.appendText(` ${item.label}`);
+			checkbox.onchange = () => {
+				if (checkbox.checked) {
+					selected.push(item.value);
+				} else {
+					selected.splice(selected.indexOf(item.value), 1);
+				}
+				summaryEl.setText(selected.length > 0 ? `${title}: ${selected.length} selected` : title);
+			};
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * RevertedChangesModal - Reports changes that were undone on a protected branch
+ * The changes wait in the git stash until they're moved to a new branch or discarded
+ */
+export class RevertedChangesModal extends Modal {
+	plugin: any;
+	reverted: RevertedChanges;
+
+	constructor(app: App, plugin: any, reverted: RevertedChanges) {
+		super(app);
+		this.plugin = plugin;
+		this.reverted = reverted;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: '↩️ Changes Reverted' });
+		contentEl.createEl('p', {
+			text: `${this.plugin.settings.currentBranch} is read-only, so these changes made outside the editor were undone:`
+		});
+
+		const list = contentEl.createDiv();
+		list.style.cssText = 'max-height: 200px; overflow-y: auto; margin: 10px 0; padding: 10px; background: var(--background-secondary); border-radius: 6px; font-family: var(--font-monospace); font-size: 0.9em;';
+		this.reverted.files.forEach(file => {
+			const status = SaveChangesModal.getStatusInfo(file);
+			list.createDiv({ text: `${status.icon} ${file.origPath ? `${file.origPath} → ${file.path}` : file.path} (${status.label})` });
+		});
+
+		contentEl.createEl('h3', { text: 'Keep These Changes?' });
+
+		let newBranchName = '';
+		const branchNameContainer = contentEl.createDiv('git-new-branch-container');
+		new Setting(branchNameContainer)
+			.setName('New Branch Name')
+			.setDesc('Move the changes onto a new working branch and start editing there')
+			.addText(text => text
+				.setPlaceholder('feature/my-edits')
+				.onChange(value => {
+					newBranchName = value;
+					updateValidation();
+				}));
+		const validationEl = branchNameContainer.createDiv({ cls: 'git-branch-validation' });
+
+		contentEl.createEl('p', {
+			text: 'If you close this window the changes stay in the git stash.',
+			attr: { style: 'color: var(--text-muted); font-size: 0.9em;' }
+		});
+
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.cssText = 'display: flex; gap: 10px; margin-top: 20px; justify-content: flex-end;';
+
+		const discardButton = buttonContainer.createEl('button', { text: '🗑️ Discard Changes' });
+		discardButton.style.cssText = 'background: var(--color-red); color: white;';
+		discardButton.onclick = async () => {
+			if (await this.plugin.gitOps.discardRevertedChanges(this.reverted.stash)) {
+				new Notice('🗑️ Reverted changes discarded');
+				this.close();
+			}
+		};
+
+		const moveButton = buttonContainer.createEl('button', { text: '🌿 Move to New Branch' });
+		moveButton.style.cssText = 'background: var(--interactive-accent); color: white;';
+		moveButton.disabled = true;
+
+		const updateValidation = () => {
+			const error = newBranchName.trim() ? this.plugin.gitOps.validateNewBranchName(newBranchName.trim()) : null;
+			validationEl.setText(error ? `⚠️ ${error}` : '');
+			moveButton.disabled = !newBranchName.trim() || error !== null;
+		};
+
+		moveButton.onclick = async () => {
+			const branchName = newBranchName.trim();
+			moveButton.disabled = true;
+			if (!(await this.plugin.gitOps.createNewBranch(branchName))) {
+				updateValidation();
+				return;
+			}
+			// Leave read-only mode first so the restored files aren't reverted all over again
+			await this.plugin.readonlyOps.enableEditMode(branchName);
+			const settings = this.plugin.settings;
+			if (settings.currentBranch !== branchName || settings.isReadOnlyMode) {
+				new Notice(`⚠️ Couldn't start editing on ${branchName}, so the changes are still in the git stash (${this.reverted.stash})`);
+				this.close();
+				return;
+			}
+			if (await this.plugin.gitOps.applyRevertedChanges(this.reverted.stash)) {
+				new Notice(`🌿 Changes moved to ${branchName}`);
+			}
+			this.close();
+		};
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * SuggestionsModal - Lists suggestions made in suggestion mode
+ * Suggestions can be discarded per note or moved together onto a new branch
+ */
+export class SuggestionsModal extends Modal {
+	plugin: any;
+
+	constructor(app: App, plugin: any) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: '💬 Suggestions' });
+
+		const paths: string[] = this.plugin.suggestions.getPaths();
+		if (paths.length === 0) {
+			contentEl.createEl('p', {
+				text: this.plugin.settings.suggestionMode
+					? 'No suggestions yet. Edit a read-only note to suggest a change.'
+					: 'No suggestions yet. Turn on Suggestion Mode to suggest changes to read-only notes.'
+			});
+			return;
+		}
+
+		contentEl.createEl('p', {
+			text: 'These edits were kept as suggestions. Move them to a new branch to commit them and open a pull request.'
+		});
+		this.renderNotes(contentEl.createDiv(), paths);
+
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.cssText = 'display: flex; gap: 10px; margin-top: 20px; justify-content: flex-end;';
+
+		const discardButton = buttonContainer.createEl('button', { text: '🗑️ Discard All' });
+		discardButton.style.cssText = 'background: var(--color-red); color: white;';
+		discardButton.onclick = async () => {
+			await this.plugin.suggestions.discard(paths);
+			new Notice('🗑️ Suggestions discarded');
+			this.close();
+		};
+
+		const applyButton = buttonContainer.createEl('button', { text: '🌿 Move to New Branch' });
+		applyButton.style.cssText = 'background: var(--interactive-accent); color: white;';
+		applyButton.onclick = async () => {
+			this.close();
+			await this.plugin.readonlyOps.applySuggestions();
+		};
+	}
+
+	private async renderNotes(container: HTMLElement, paths: string[]) {
+		for (const path of paths) {
+			const noteEl = container.createDiv({ cls: 'git-suggestion-note' });
+			const header = noteEl.createDiv({ cls: 'git-suggestion-note-header' });
+			header.createEl('strong', { text: path });
+
+			// Suggestions only apply to the exact text they were made against
+			const file = this.app.vault.getAbstractFileByPath(path);
+			const current = file instanceof TFile && this.plugin.suggestions.get(path, await this.app.vault.read(file)) !== null;
+			if (!current) {
+				header.createSpan({ text: '⚠️ note has changed', cls: 'git-suggestion-outdated' });
+			}
+
+			const discardButton = header.createEl('button', { text: 'Discard' });
+			discardButton.onclick = async () => {
+				await this.plugin.suggestions.discard([path]);
+				this.onOpen();
+			};
+
+			this.plugin.suggestions.getAll(path).forEach((suggestion: Suggestion) => {
+				const item = noteEl.createDiv({ cls: 'git-suggestion-item' });
+				if (suggestion.original) {
+					item.createSpan({ text: suggestion.original, cls: 'git-suggestion-deleted' });
+				}
+				if (suggestion.insert) {
+					item.createSpan({ text: suggestion.insert, cls: 'git-suggestion-inserted' });
+				}
+			});
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+// ============================================================================
+// ERROR RECOVERY MODAL
+// ============================================================================
+
+/**
+ * GitErrorModal - Explains a classified git/GitHub failure
+ * Offers the recovery action that matches the error kind
+ */
+export class GitErrorModal extends Modal {
+	plugin: any;
+	error: GitCollabError;
+	retry?: () => Promise<unknown>;
+
+	constructor(app: App, plugin: any, error: GitCollabError, retry?: () => Promise<unknown>) {
+		super(app);
+		this.plugin = plugin;
+		this.error = error;
+		this.retry = retry;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: `⚠️ ${this.getTitle()}` });
+		contentEl.createEl('p', { text: this.error.message });
+
+		if (this.error.detail) {
+			const detailsEl = contentEl.createEl('details');
+			detailsEl.createEl('summary', { text: 'Git output' });
+			const pre = detailsEl.createEl('pre', { text: this.error.detail });
+			pre.style.cssText = 'max-height: 150px; overflow: auto; font-size: 0.85em; white-space: pre-wrap;';
+		}
+
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.cssText = 'display: flex; gap: 10px; margin-top: 20px; justify-content: flex-end;';
+
+		const dismissButton = buttonContainer.createEl('button', { text: 'Dismiss' });
+		dismissButton.onclick = () => this.close();
+
+		switch (this.error.kind) {
+			case 'auth': {
+				let newToken = '';
+				new Setting(contentEl)
+					.setName('GitHub Personal Access Token')
+					.setDesc('Enter a token with repo access for this repository')
+					.addText(text => {
+						text.inputEl.type = 'password';
+						text.setPlaceholder('ghp_xxxxxxxxxxxxxxxxxxxx')
+							.onChange(value => {
+								newToken = value.trim();
+							});
+					});
+				// Keep the buttons below the token input
+				contentEl.appendChild(buttonContainer);
+				this.addAction(buttonContainer, '🔑 Save Token', async () => {
+					if (!newToken) {
+						new Notice('Please enter a token');
+						return false;
+					}
+					return this.plugin.gitOps.updateRepositoryToken(newToken);
+				});
+				break;
+			}
+			case 'non-fast-forward':
+				this.addAction(buttonContainer, '📥 Pull & Retry', async () => {
+					return this.plugin.gitOps.pullCurrentBranch();
+				});
+				break;
+			case 'merge-conflict': {
+				const abortButton = buttonContainer.createEl('button', { text: '↩️ Abort Merge' });
+				abortButton.onclick = async () => {
+					if (await this.plugin.gitOps.abortMerge()) {
+						this.close();
+					}
+				};
+				// The resolver retries the original operation itself once the merge is committed
+				const resolveButton = buttonContainer.createEl('button', { text: '🧩 Open Conflict Resolver' });
+				resolveButton.style.cssText = 'background: var(--interactive-accent); color: white;';
+				resolveButton.onclick = () => {
+					this.close();
+					new ConflictResolverModal(this.app, this.plugin, this.retry).open();
+				};
+				break;
+			}
+			case 'missing-upstream':
+				// Publishing is itself the push, so there is nothing to retry afterwards
+				this.addAction(buttonContainer, '🚀 Publish Branch', async () => {
+					return this.plugin.gitOps.pushWithUpstream();
+				}, false);
+				break;
+			case 'offline':
+				if (this.retry) {
+					this.addAction(buttonContainer, '🔄 Retry', async () => true);
+				}
+				break;
+			case 'index-lock':
+				this.addAction(buttonContainer, '🔓 Remove Stale Lock', async () => {
+					return this.plugin.gitOps.removeStaleIndexLock();
+				});
+				break;
+			case 'detached-head':
+				this.addAction(buttonContainer, `🔒 Return to ${this.plugin.settings.mainBranch}`, async () => {
+					await this.plugin.readonlyOps.forceEnableReadOnlyMode();
+					return true;
+				}, false);
+				break;
+		}
+	}
+
+	/**
+	 * Add the primary recovery button. The action resolves true when the fix
+	 * worked; the original operation is then retried if `retryAfter` is set.
+	 */
+	addAction(container: HTMLElement, label: string, action: () => Promise<boolean>, retryAfter = true) {
+		const button = container.createEl('button', { text: label });
+		button.style.cssText = 'background: var(--interactive-accent); color: white;';
+		button.onclick = async () => {
+			button.disabled = true;
+			const fixed = await action();
+			if (!fixed) {
+				button.disabled = false;
+				return;
+			}
+			this.close();
+			if (retryAfter && this.retry) {
+				await this.retry();
+			}
+		};
+	}
+
+	getTitle(): string {
+		switch (this.error.kind) {
+			case 'auth': return 'Authentication Failed';
+			case 'non-fast-forward': return 'Remote Has New Changes';
+			case 'merge-conflict': return 'Merge Conflict';
+			case 'missing-upstream': return 'Branch Not on Remote';
+			case 'offline': return 'Network Unavailable';
+			case 'index-lock': return 'Repository Is Locked';
+			case 'detached-head': return 'Not on a Branch';
+			default: return 'Git Error';
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+// ============================================================================
+// CONFLICT RESOLVER MODAL
+// ============================================================================
+
+function isBinary(content: string | null): boolean {
+	return content !== null && content.includes('\0');
+}
+
+/**
+ * ConflictResolverModal - Resolve a merge that stopped on conflicts without leaving Obsidian
+ * Lists conflicted notes, shows ours/base/theirs per hunk and completes or aborts the merge
+ */
+export class ConflictResolverModal extends Modal {
+	plugin: any;
+	onComplete?: () => Promise<unknown>;
+	conflictedFiles: string[] = [];
+	selectedFile: string | null = null;
+
+	constructor(app: App, plugin: any, onComplete?: () => Promise<unknown>) {
+		super(app);
+		this.plugin = plugin;
+		this.onComplete = onComplete;
+	}
+
+	async onOpen() {
+		this.modalEl.style.width = '90vw';
+		this.modalEl.style.maxWidth = '1200px';
+		await this.render();
+	}
+
+	async render() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: '🧩 Resolve Merge Conflicts' });
+
+		if (!(await this.plugin.gitOps.isMergeInProgress())) {
+			contentEl.createEl('p', { text: '✨ No merge is in progress.' });
+			return;
+		}
+
+		this.conflictedFiles = await this.plugin.gitOps.getConflictedFiles();
+		if (this.selectedFile === null || !this.conflictedFiles.includes(this.selectedFile)) {
+			this.selectedFile = this.conflictedFiles[0] || null;
+		}
+
+		const layout = contentEl.createDiv();
+		layout.style.cssText = 'display: flex; gap: 16px; margin: 12px 0;';
+
+		// File list
+		const fileList = layout.createDiv();
+		fileList.style.cssText = 'flex: 0 0 220px; max-height: 60vh; overflow-y: auto;';
+		fileList.createEl('h4', { text: `Conflicted Notes (${this.conflictedFiles.length})` });
+
+		if (this.conflictedFiles.length === 0) {
+			fileList.createEl('p', {
+				text: '✅ All conflicts resolved. Complete the merge to continue.',
+				attr: { style: 'color: var(--text-muted); font-size: 0.9em;' }
+			});
+		}
+
+		this.conflictedFiles.forEach(filePath => {
+			const fileButton = fileList.createEl('button', { text: `⚠️ ${filePath}` });
+			fileButton.style.cssText = 'display: block; width: 100%; text-align: left; margin: 4px 0; white-space: normal; height: auto;';
+			if (filePath === this.selectedFile) {
+				fileButton.style.background = 'var(--interactive-accent)';
+				fileButton.style.color = 'white';
+			}
+			fileButton.onclick = () => {
+				this.selectedFile = filePath;
+				this.render();
+			};
+		});
+
+		// Hunk editor
+		const editorEl = layout.createDiv();
+		editorEl.style.cssText = 'flex: 1; min-width: 0; max-height: 60vh; overflow-y: auto;';
+		if (this.selectedFile) {
+			await this.renderFile(editorEl, this.selectedFile);
+		}
+
+		// Action buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.cssText = 'display: flex; gap: 10px; margin-top: 20px; justify-content: space-between;';
+
+		const abortButton = buttonContainer.createEl('button', { text: '↩️ Abort Merge' });
+		abortButton.style.cssText = 'background: var(--color-red); color: white;';
+		abortButton.onclick = async () => {
+			if (await this.plugin.gitOps.abortMerge()) {
+				this.close();
+			}
+		};
+
+		const completeButton = buttonContainer.createEl('button', { text: '✅ Complete Merge' });
+		completeButton.style.cssText = 'background: var(--interactive-accent); color: white;';
+		completeButton.disabled = this.conflictedFiles.length > 0;
+		completeButton.onclick = async () => {
+			if (await this.plugin.gitOps.completeMerge()) {
+				this.close();
+				if (this.onComplete) {
+					await this.onComplete();
+				}
+			}
+		};
+	}
+
+	async renderFile(container: HTMLElement, filePath: string) {
+		container.createEl('h4', { text: filePath });
+
+		const versions = await this.plugin.gitOps.getMergeVersions(filePath);
+
+		// Deleted on one side, or not text: only whole-file choices make sense
+		if (versions.ours === null || versions.theirs === null || isBinary(versions.ours) || isBinary(versions.theirs)) {
+			this.renderWholeFileChoice(container, filePath, versions);
+			return;
+		}
+
+		const merged = await this.plugin.gitOps.mergeWithMarkers(versions);
+		const segments = parseDiff3(merged);
+
+		segments.forEach((segment, index) => {
+			if (segment.type === 'common') {
+				this.renderCommon(container, segment.lines, index === 0, index === segments.length - 1);
+			} else {
+				this.renderHunk(container, segment.hunk, () => updateSaveButton());
+			}
+		});
+
+		const saveButton = container.createEl('button', { text: '💾 Mark Resolved' });
+		saveButton.style.cssText = 'background: var(--interactive-accent); color: white; margin-top: 12px;';
+		const updateSaveButton = () => {
+			saveButton.disabled = buildResolution(segments) === null;
+		};
+		updateSaveButton();
+		saveButton.onclick = async () => {
+			const resolution = buildResolution(segments);
+			if (resolution === null) {
+				new Notice('Choose a side for every conflict first');
+				return;
+			}
+			if (await this.plugin.gitOps.resolveConflict(filePath, resolution)) {
+				new Notice(`✅ Resolved ${filePath}`);
+				this.selectedFile = null;
+				await this.render();
+			}
+		};
+	}
+
+	renderCommon(container: HTMLElement, lines: string[], isFirst: boolean, isLast: boolean) {
+		// Only a little context around each hunk; the rest is unchanged on both sides
+		const context = 3;
+		const head = isFirst ? [] : lines.slice(0, context);
+		const tail = isLast ? [] : lines.slice(-context);
+		const hidden = lines.length - head.length - tail.length;
+
+		const commonEl = container.createEl('pre');
+		commonEl.style.cssText = 'color: var(--text-muted); font-size: 0.85em; white-space: pre-wrap; margin: 4px 0;';
+		if (hidden > 0) {
+			commonEl.textContent = [...head, `… ${hidden} unchanged line(s) …`, ...tail].join('\n');
+		} else {
+			commonEl.textContent = lines.join('\n');
+		}
+	}
+
+	renderHunk(container: HTMLElement, hunk: ConflictHunk, onChoice: () => void) {
+		const hunkEl = container.createDiv();
+		hunkEl.style.cssText = `
+			border: 1px solid var(--background-modifier-border);
+			border-radius: 6px;
+			padding: 8px;
+			margin: 8px 0;
+			background: var(--background-secondary);
+		`;
+
+		const columns = hunkEl.createDiv();
+		columns.style.cssText = 'display: grid; grid-template-columns: 1fr 1fr 1fr; gap: 8px;';
+
+		const sides: { key: 'ours' | 'base' | 'theirs'; label: string }[] = [
+			{ key: 'ours', label: 'Yours' },
+			{ key: 'base', label: 'Original' },
+			{ key: 'theirs', label: 'Incoming' }
+		];
+
+		const columnEls: Partial<Record<HunkChoice, HTMLElement>> = {};
+		sides.forEach(side => {
+			const column = columns.createDiv();
+			column.style.cssText = 'min-width: 0; border-radius: 4px; padding: 4px;';
+			column.createEl('strong', { text: side.label });
+			const pre = column.createEl('pre', { text: hunk[side.key].join('\n') || '(empty)' });
+			pre.style.cssText = 'white-space: pre-wrap; font-size: 0.85em; margin: 4px 0;';
+			columnEls[side.key] = column;
+		});
+
+		const choices: { choice: HunkChoice; label: string }[] = [
+			{ choice: 'ours', label: 'Accept Yours' },
+			{ choice: 'theirs', label: 'Accept Incoming' },
+			{ choice: 'both', label: 'Accept Both' },
+			{ choice: 'base', label: 'Keep Original' }
+		];
+
+		const actionsEl = hunkEl.createDiv();
+		actionsEl.style.cssText = 'display: flex; gap: 8px; margin-top: 8px; flex-wrap: wrap;';
+
+		const highlight = () => {
+			Object.entries(columnEls).forEach(([key, el]) => {
+				if (!el) {
+					return;
+				}
+				const chosen = hunk.choice === key || (hunk.choice === 'both' && key !== 'base');
+				el.style.background = chosen ? 'var(--background-modifier-success)' : '';
+			});
+		};
+
+		choices.forEach(({ choice, label }) => {
+			const button = actionsEl.createEl('button', { text: label });
+			button.onclick = () => {
+				hunk.choice = choice;
+				highlight();
+				onChoice();
+			};
+		});
+		highlight();
+	}
+
+	renderWholeFileChoice(container: HTMLElement, filePath: string, versions: { ours: string | null; theirs: string | null }) {
+		const describe = (content: string | null) => {
+			if (content === null) return 'deleted';
+			if (isBinary(content)) return 'binary file';
+			return `${content.split('\n').length} line(s)`;
+		};
+
+		container.createEl('p', {
+			text: `This file can't be merged line by line. Yours: ${describe(versions.ours)}, incoming: ${describe(versions.theirs)}.`,
+			attr: { style: 'color: var(--text-muted);' }
+		});
+
+		const actionsEl = container.createDiv();
+		actionsEl.style.cssText = 'display: flex; gap: 8px;';
+
+		const keep = async (side: 'ours' | 'theirs') => {
+			if (await this.plugin.gitOps.resolveConflictWithSide(filePath, side, versions[side] === null)) {
+				new Notice(`✅ Resolved ${filePath}`);
+				this.selectedFile = null;
+				await this.render();
+			}
+		};
+
+		const oursButton = actionsEl.createEl('button', { text: versions.ours === null ? 'Keep Deleted' : 'Keep Yours' });
+		oursButton.onclick = () => keep('ours');
+
+		const theirsButton = actionsEl.createEl('button', { text: versions.theirs === null ? 'Accept Deletion' : 'Accept Incoming' });
+		theirsButton.onclick = () => keep('theirs');
+	}
+
 	onClose() {
 		const { contentEl } = this;
 		contentEl.empty();
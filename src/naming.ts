@@ -0,0 +1,133 @@
+export interface BranchNamingPolicy {
+	// e.g. "draft/{user}-{date}"; tokens: {user}, {date}, {note-title}
+	branchNameTemplates: string[];
+	// When non-empty, new branch names must start with one of these
+	allowedBranchPrefixes: string[];
+	// Optional regular expression every new branch name must match
+	branchNamePattern: string;
+}
+
+export interface BranchNameContext {
+	userName: string;
+	noteTitle: string | null;
+	date?: Date;
+}
+
+/**
+ * Lowercase, dash-separated form of free text that is safe inside a ref name
+ */
+export function slugify(text: string): string {
+	return text
+		.toLowerCase()
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Fill in a branch name template, or null when it needs a token we don't have
+ * (e.g. {note-title} with no note open)
+ */
+export function expandBranchTemplate(template: string, context: BranchNameContext): string | null {
+	const date = context.date || new Date();
+	const values: Record<string, string | null> = {
+		'user': slugify(context.userName) || null,
+		'date': date.toISOString().split('T')[0],
+		'note-title': context.noteTitle ? slugify(context.noteTitle) || null : null
+	};
+
+	let missing = false;
+	const expanded = template.replace(/\{([a-z-]+)\}/g, (token, key) => {
+		if (!(key in values)) {
+			return token;
+		}
+		const value = values[key];
+		if (value === null) {
+			missing = true;
+			return '';
+		}
+		return value;
+	});
+	return missing ? null : expanded;
+}
+
+/**
+ * Why git would reject this as a branch name (see `git check-ref-format`), or null if it's valid
+ */
+export function getRefFormatError(name: string): string | null {
+	if (!name) return 'Branch name is empty';
+	if (/\s/.test(name)) return 'Branch names cannot contain spaces';
+	if (/[~^:?*[\\]/.test(name)) return 'Branch names cannot contain ~ ^ : ? * [ or \\';
+	if ([...name].some(char => char.charCodeAt(0) < 32 || char.charCodeAt(0) === 127)) return 'Branch names cannot contain control characters';
+	if (name.includes('..')) return 'Branch names cannot contain ".."';
+	if (name.includes('@{') || name === '@') return 'Branch names cannot contain "@{" or be "@"';
+	if (name.startsWith('-')) return 'Branch names cannot start with "-"';
+	if (name.startsWith('/') || name.endsWith('/') || name.includes('//')) return 'Branch names cannot have empty "/" sections';
+	if (name.endsWith('.')) return 'Branch names cannot end with "."';
+	if (name.split('/').some(part => part.startsWith('.') || part.endsWith('.lock'))) {
+		return 'No part of a branch name can start with "." or end with ".lock"';
+	}
+	return null;
+}
+
+/**
+ * Check a proposed branch name against git's rules and the team's naming policy.
+ * Returns a message to show the user, or null if the name is acceptable.
+ */
+export function validateBranchName(name: string, policy: BranchNamingPolicy, existingBranches: string[] = []): string | null {
+	const refError = getRefFormatError(name);
+	if (refError) {
+		return refError;
+	}
+
+	if (existingBranches.includes(name)) {
+		return `Branch "${name}" already exists`;
+	}
+
+	const prefixes = policy.allowedBranchPrefixes.filter(prefix => prefix.trim());
+	if (prefixes.length > 0 && !prefixes.some(prefix => name.startsWith(prefix))) {
+		return `Branch names must start with ${prefixes.map(prefix => `"${prefix}"`).join(', ')}`;
+	}
+
+	if (policy.branchNamePattern) {
+		let pattern: RegExp;
+		try {
+			pattern = new RegExp(policy.branchNamePattern);
+		} catch (error) {
+			// A broken pattern in settings shouldn't block everyone from creating branches
+			console.error('Invalid branch name pattern:', error);
+			return null;
+		}
+		if (!pattern.test(name)) {
+			return `Branch name must match the pattern ${policy.branchNamePattern}`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Whether a branch name matches a protection pattern.
+ * `*` matches within one path segment, `**` across segments ("release/*", "archive/**").
+ */
+export function branchMatchesPattern(branch: string, pattern: string): boolean {
+	const source = pattern
+		.trim()
+		.split('**')
+		.map(part => part
+			.split('*')
+			.map(literal => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+			.join('[^/]*'))
+		.join('.*');
+	return new RegExp(`^${source}$`).test(branch);
+}
+
+/**
+ * Protected branches can be viewed in read-only mode but never edited locally.
+ * The main branch is always protected.
+ */
+export function isProtectedBranch(branch: string, settings: { mainBranch: string; protectedBranches: string[] }): boolean {
+	return branch === settings.mainBranch
+		|| settings.protectedBranches.some(pattern => pattern.trim() && branchMatchesPattern(branch, pattern));
+}
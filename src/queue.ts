@@ -0,0 +1,77 @@
+import { Events } from 'obsidian';
+
+export interface QueuedOperation {
+	id: number;
+	label: string;
+	enqueuedAt: number;
+	startedAt?: number;
+}
+
+interface QueueEntry {
+	operation: QueuedOperation;
+	task: () => Promise<unknown>;
+	resolve: (value: any) => void;
+	reject: (reason: unknown) => void;
+}
+
+/**
+ * GitOperationQueue - Serializes git work so only one operation touches the
+ * repository (and its index.lock) at a time.
+ *
+ * Triggers 'change' whenever an operation starts, finishes or is queued.
+ * A task must not enqueue and await another operation, as it would wait on itself.
+ */
+export class GitOperationQueue extends Events {
+	private entries: QueueEntry[] = [];
+	private running: QueueEntry | null = null;
+	private nextId = 1;
+
+	enqueue<T>(label: string, task: () => Promise<T>): Promise<T> {
+		return new Promise<T>((resolve, reject) => {
+			this.entries.push({
+				operation: { id: this.nextId++, label, enqueuedAt: Date.now() },
+				task,
+				resolve,
+				reject
+			});
+			this.trigger('change');
+			this.runNext();
+		});
+	}
+
+	/**
+	 * True while any queued operation is executing
+	 */
+	isBusy(): boolean {
+		return this.running !== null;
+	}
+
+	getRunning(): QueuedOperation | null {
+		return this.running ? this.running.operation : null;
+	}
+
+	getPending(): QueuedOperation[] {
+		return this.entries.map(entry => entry.operation);
+	}
+
+	private async runNext() {
+		const entry = this.running ? undefined : this.entries.shift();
+		if (!entry) {
+			return;
+		}
+
+		entry.operation.startedAt = Date.now();
+		this.running = entry;
+		this.trigger('change');
+
+		try {
+			entry.resolve(await entry.task());
+		} catch (error) {
+			entry.reject(error);
+		} finally {
+			this.running = null;
+			this.trigger('change');
+			this.runNext();
+		}
+	}
+}
@@ -1,33 +1,160 @@
-import { App, MarkdownView, Notice, FileSystemAdapter } from 'obsidian';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { App, MarkdownView, Modal, Notice, TAbstractFile, TFile, WorkspaceLeaf, editorInfoField } from 'obsidian';
+import { Annotation, EditorState, Extension, Transaction } from '@codemirror/state';
+import { EditorView, ViewPlugin } from '@codemirror/view';
 import { SaveChangesModal, BranchSelectionModal } from './modals';
+import { expandBranchTemplate } from './naming';
 
-const execAsync = promisify(exec);
+// User edits CodeMirror tags on its transactions; anything else (e.g. reloading a note
+// after a checkout) must still reach the editor
+const EDITING_USER_EVENTS = ['input', 'delete', 'move', 'undo', 'redo'];
+
+// Branch names for "Propose an edit", most specific first; prefixed with the team's first allowed prefix
+const PROPOSAL_BRANCH_TEMPLATES = ['{user}-{note-title}', '{note-title}-{date}'];
+const DEFAULT_PROPOSAL_PREFIX = 'edit/';
+
+/**
+ * How a note may be edited right now:
+ * - read-only: locked (read-only mode, outside the editable folders)
+ * - editable: inside an editable folder while read-only mode is on
+ * - confirm: edit mode, but the folder asks for confirmation first
+ * - none: no restrictions
+ */
+export type NoteProtection = 'read-only' | 'editable' | 'confirm' | 'none';
+
+/**
+ * Whether a vault path is one of the folders (or inside one); folders are vault-relative
+ */
+export function isInFolders(path: string, folders: string[]): boolean {
+	return folders.some(folder => {
+		const normalized = folder.trim().replace(/^\/+|\/+$/g, '');
+		return normalized !== '' && (path === normalized || path.startsWith(`${normalized}/`));
+	});
+}
+
+/**
+ * Marks a change the plugin itself makes to a locked editor (reloading a note that changed on disk);
+ * every other change to a locked note is refused, whether typed or made through the Editor API
+ */
+export const allowLockedEdit = Annotation.define<boolean>();
+
+function isUserEdit(transaction: Transaction): boolean {
+	return EDITING_USER_EVENTS.some(event => transaction.isUserEvent(event));
+}
+
+function getEditorPath(state: EditorState): string | null {
+	const info = state.field(editorInfoField, false);
+	return info && info.file ? info.file.path : null;
+}
 
 export class ReadOnlyOperations {
 	private plugin: any;
+	// Registered by the plugin once; rebuilt whenever the rules or the mode change
+	editorExtension: Extension[] = [];
+	// Notes in confirm-before-editing folders the user has agreed to edit this session
+	private confirmedPaths: Set<string> = new Set();
+	private confirmingPath: string | null = null;
+	// Every open editor, so locked ones can be brought in line with their file
+	private editorViews: Set<{ view: EditorView }> = new Set();
+	private editorTracker = ViewPlugin.define(view => {
+		const tracked = { view, destroy: () => this.editorViews.delete(tracked) };
+		this.editorViews.add(tracked);
+		return tracked;
+	});
 	
 	constructor(plugin: any) {
 		this.plugin = plugin;
 	}
+
+	getNoteProtection(path: string | null): NoteProtection {
+		const settings = this.plugin.settings;
+		if (settings.isReadOnlyMode) {
+			return path && isInFolders(path, settings.editableFolders) ? 'editable' : 'read-only';
+		}
+		return path && isInFolders(path, settings.confirmFolders) ? 'confirm' : 'none';
+	}
+
+	/**
+	 * Per-editor protection: each editor looks up the rules for the note it shows.
+	 * Facet values are only recomputed for new extension instances, so this is rebuilt on every refresh.
+	 */
+	private createEditorExtension(): Extension {
+		// In suggestion mode read-only notes take keystrokes, but the filter below turns them into suggestions
+		const isLocked = (state: EditorState) => !this.plugin.settings.suggestionMode
+			&& this.getNoteProtection(getEditorPath(state)) === 'read-only';
+		return [
+			this.editorTracker,
+			EditorState.readOnly.compute([editorInfoField], isLocked),
+			EditorView.editable.compute([editorInfoField], state => !isLocked(state)),
+			EditorState.transactionFilter.of(transaction => {
+				if (!transaction.docChanged || transaction.annotation(allowLockedEdit)) {
+					return transaction;
+				}
+				const path = getEditorPath(transaction.startState);
+				const protection = this.getNoteProtection(path);
+				if (protection === 'read-only') {
+					return this.plugin.settings.suggestionMode && path && isUserEdit(transaction)
+						? this.plugin.suggestions.capture(path, transaction)
+						: [];
+				}
+				// Confirmation is a prompt for the person typing, not a lock
+				if (protection === 'confirm' && path && !this.confirmedPaths.has(path) && isUserEdit(transaction)) {
+					// Open the prompt after CodeMirror finishes this update
+					window.setTimeout(() => this.confirmEditing(path));
+					return [];
+				}
+				return transaction;
+			})
+		];
+	}
+
+	/**
+	 * Ask once per note before the first edit in a confirm-before-editing folder
+	 */
+	confirmEditing(path: string) {
+		if (this.confirmingPath !== null) {
+			return;
+		}
+		this.confirmingPath = path;
+
+		const confirmModal = new Modal(this.plugin.app);
+		const { contentEl } = confirmModal;
+		contentEl.createEl('h3', { text: '⚠️ Edit a protected note?' });
+		contentEl.createEl('p', { text: path });
+		contentEl.createEl('p', {
+			text: 'This folder is marked as requiring confirmation before editing. Changes here usually need extra review.',
+			attr: { style: 'color: var(--text-muted); font-size: 0.9em;' }
+		});
+
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.cssText = 'display: flex; gap: 10px; margin-top: 20px; justify-content: flex-end;';
+
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.onclick = () => confirmModal.close();
+
+		const confirmButton = buttonContainer.createEl('button', { text: '✏️ Edit Anyway' });
+		confirmButton.style.cssText = 'background: var(--interactive-accent); color: white;';
+		confirmButton.onclick = () => {
+			this.confirmedPaths.add(path);
+			confirmModal.close();
+			this.syncMarkdownViews();
+		};
+
+		confirmModal.onClose = () => {
+			this.confirmingPath = null;
+		};
+		confirmModal.open();
+	}
 	
 	enableReadOnlyMode() {
 		// Add CSS class to body for global styling
 		document.body.classList.add('git-collab-readonly');
 		document.body.classList.remove('git-collab-edit-mode');
 		
-		// Disable text input in all editors
-		this.disableTextInput();
+		// Make every editor read-only
+		this.lockEditors();
 		
 		// Disable file operations (create, delete, rename)
 		this.disableFileOperations();
-		
-		// Apply read-only styles to current active view
-		const activeView = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
-		if (activeView) {
-			this.applyReadOnlyStyles(activeView);
-		}
 	}
 
 	disableReadOnlyMode() {
@@ -35,17 +162,26 @@ export class ReadOnlyOperations {
 		document.body.classList.remove('git-collab-readonly');
 		document.body.classList.add('git-collab-edit-mode');
 		
-		// Re-enable text input
-		this.enableTextInput();
+		// Make editors editable again
+		this.unlockEditors();
 		
 		// Re-enable file operations
 		this.enableFileOperations();
-		
-		// Remove read-only styles from current active view
-		const activeView = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
-		if (activeView) {
-			this.removeReadOnlyStyles(activeView);
-		}
+	}
+
+	/**
+	 * Undo everything read-only mode changed outside the plugin's own views (used on unload)
+	 */
+	teardown() {
+		document.body.classList.remove('git-collab-readonly', 'git-collab-edit-mode');
+		this.editorExtension.length = 0;
+		this.plugin.app.workspace.updateOptions();
+		this.plugin.app.workspace.iterateAllLeaves((leaf: WorkspaceLeaf) => {
+			if (leaf.view instanceof MarkdownView) {
+				this.removeReadOnlyStyles(leaf.view);
+			}
+		});
+		this.enableFileOperations();
 	}
 
 	updateRibbonIcon() {
@@ -67,21 +203,20 @@ export class ReadOnlyOperations {
 	       return;
 	   }
 	   
-	   // CRITICAL: Edit mode is NOT allowed on main branch
+	   // CRITICAL: Edit mode is NOT allowed on main or any other protected branch
 	   if (this.plugin.settings.isRepositoryConnected) {
 	       const targetBranch = branchName || this.plugin.settings.currentBranch;
 	       
-	       if (targetBranch === this.plugin.settings.mainBranch) {
-	           new Notice(`🚫 Cannot enable edit mode on ${this.plugin.settings.mainBranch} branch. Please select a different branch.`);
+	       if (this.plugin.gitOps.isProtectedBranch(targetBranch)) {
+	           new Notice(`🚫 Cannot enable edit mode on protected branch ${targetBranch}. Please select a different branch.`);
 	           return;
 	       }
 
 	       // Ensure we're actually on the correct branch
 	       try {
-	           const adapter = this.plugin.app.vault.adapter;
-	           if (adapter instanceof FileSystemAdapter) {
-	               const vaultPath = (adapter as any).basePath || '';
-	               await execAsync(`git checkout ${targetBranch}`, { cwd: vaultPath });
+	           if (this.plugin.gitRunner.getVaultPath() !== null) {
+	               await this.plugin.layouts.aroundCheckout(this.plugin.settings.currentBranch, targetBranch, () =>
+	                   this.plugin.gitQueue.enqueue(`Switch to ${targetBranch}`, () => this.plugin.gitRunner.run(['checkout', targetBranch])));
 	           }
 	       } catch (error) {
 	           new Notice(`Failed to switch to branch ${targetBranch}: ${error.message}`);
@@ -109,6 +244,155 @@ export class ReadOnlyOperations {
 	   await this.plugin.gitOps.validateAndEnforceBranchRules();
 	}
 
+	/**
+	 * One step from reading a note to editing it: create a branch named after the note,
+	 * switch to edit mode on it and reopen the note where the reader left off
+	 */
+	async proposeEdit(file: TFile) {
+		if (!this.plugin.settings.isRepositoryConnected) {
+			new Notice('No repository connected');
+			return;
+		}
+		if (!this.plugin.settings.isReadOnlyMode) {
+			new Notice('✏️ Already in edit mode');
+			return;
+		}
+
+		// Remember the scroll position before the checkout replaces the editor
+		const leaf = this.findLeafForFile(file) || this.plugin.app.workspace.getLeaf(false);
+		const ephemeralState = leaf.getEphemeralState();
+
+		const branchName = this.getProposalBranchName(file.basename);
+		if (!branchName) {
+			new Notice('🚫 Could not name a branch for this note. Please choose one yourself.');
+			new BranchSelectionModal(this.plugin.app, this.plugin).open();
+			return;
+		}
+
+		if (!(await this.plugin.gitOps.createNewBranch(branchName))) {
+			return;
+		}
+		this.plugin.settings.editProposals[branchName] = file.path;
+		await this.plugin.saveSettings();
+
+		await this.enableEditMode(branchName);
+		if (this.plugin.settings.isReadOnlyMode) {
+			return;
+		}
+
+		// Restoring the branch layout may have closed or moved the tab
+		const target = this.findLeafForFile(file) || this.plugin.app.workspace.getLeaf(false);
+		await target.openFile(file, { active: true, state: { mode: 'source' }, eState: ephemeralState });
+	}
+
+	/**
+	 * First free branch name for a proposal that satisfies the naming policy, or null if none does
+	 */
+	getProposalBranchName(noteTitle: string): string | null {
+		const settings = this.plugin.settings;
+		const prefix = settings.allowedBranchPrefixes.find((candidate: string) => candidate.trim()) || DEFAULT_PROPOSAL_PREFIX;
+		const context = { userName: settings.userName, noteTitle };
+
+		for (const template of PROPOSAL_BRANCH_TEMPLATES) {
+			const base = expandBranchTemplate(`${prefix}${template}`, context);
+			if (!base) {
+				continue;
+			}
+			// Proposing a second edit to the same note gets "-2", "-3", ...
+			for (let attempt = 1; attempt <= 20; attempt++) {
+				const candidate = attempt === 1 ? base : `${base}-${attempt}`;
+				if (!this.plugin.gitOps.validateNewBranchName(candidate)) {
+					return candidate;
+				}
+			}
+		}
+		return null;
+	}
+
+	async setSuggestionMode(enabled: boolean) {
+		this.plugin.settings.suggestionMode = enabled;
+		await this.plugin.saveSettings();
+		this.refreshEditors();
+		this.updateStatusBar();
+		if (this.plugin.settings.isReadOnlyMode) {
+			new Notice(enabled ? '💬 Suggestion Mode on - edits to read-only notes are kept as suggestions' : '🔒 Suggestion Mode off');
+		}
+	}
+
+	/**
+	 * Turn every pending suggestion into real edits on a new branch, then hand over to
+	 * the usual save dialog to commit, push and open a pull request
+	 */
+	async applySuggestions() {
+		if (!this.plugin.settings.isRepositoryConnected) {
+			new Notice('No repository connected');
+			return;
+		}
+		if (!this.plugin.settings.isReadOnlyMode) {
+			new Notice('🚫 Switch to read-only mode before applying suggestions');
+			return;
+		}
+
+		// Work out the suggested text while the notes still match what the suggestions were made against
+		const updates: { file: TFile; text: string }[] = [];
+		const outdated: string[] = [];
+		for (const path of this.plugin.suggestions.getPaths()) {
+			const file = this.plugin.app.vault.getAbstractFileByPath(path);
+			const text = file instanceof TFile ? this.plugin.suggestions.apply(path, await this.plugin.app.vault.read(file)) : null;
+			if (file instanceof TFile && text !== null) {
+				updates.push({ file, text });
+			} else {
+				outdated.push(path);
+			}
+		}
+		if (outdated.length > 0) {
+			new Notice(`⚠️ ${outdated.length} note(s) changed since their suggestions were made and were skipped`);
+		}
+		if (updates.length === 0) {
+			new Notice('No suggestions to apply');
+			return;
+		}
+
+		const branchName = this.getProposalBranchName(updates.length === 1 ? updates[0].file.basename : 'suggestions');
+		if (!branchName) {
+			new Notice('🚫 Could not name a branch for these suggestions');
+			return;
+		}
+		if (!(await this.plugin.gitOps.createNewBranch(branchName))) {
+			return;
+		}
+		if (updates.length === 1) {
+			this.plugin.settings.editProposals[branchName] = updates[0].file.path;
+			await this.plugin.saveSettings();
+		}
+
+		// Out of read-only mode first, so writing the notes isn't reverted
+		await this.enableEditMode(branchName);
+		if (this.plugin.settings.isReadOnlyMode) {
+			return;
+		}
+		for (const { file, text } of updates) {
+			await this.plugin.app.vault.modify(file, text);
+		}
+		await this.plugin.suggestions.discard(updates.map(({ file }) => file.path));
+
+		new SaveChangesModal(this.plugin.app, this.plugin).open();
+	}
+
+	private findLeafForFile(file: TFile): WorkspaceLeaf | null {
+		const active = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
+		if (active && active.file === file) {
+			return active.leaf;
+		}
+		let found: WorkspaceLeaf | null = null;
+		this.plugin.app.workspace.iterateRootLeaves((leaf: WorkspaceLeaf) => {
+			if (!found && leaf.view instanceof MarkdownView && leaf.view.file === file) {
+				found = leaf;
+			}
+		});
+		return found;
+	}
+
 	async enableReadOnlyModeWithBranch() {
 		try {
 			// Check for uncommitted changes before switching
@@ -134,15 +418,11 @@ export class ReadOnlyOperations {
 			
 			if (this.plugin.settings.isRepositoryConnected) {
 				try {
-					// Get the vault path for Git operations
-					const adapter = this.plugin.app.vault.adapter;
-					let vaultPath: string;
-					
-					if (adapter instanceof FileSystemAdapter) {
-						vaultPath = (adapter as any).basePath || '';
-						
+					if (this.plugin.gitRunner.getVaultPath() !== null) {
 						// CRITICAL: Read-only mode MUST be on main branch
-						await execAsync(`git checkout ${this.plugin.settings.mainBranch}`, { cwd: vaultPath });
+						const mainBranch = this.plugin.settings.mainBranch;
+						await this.plugin.layouts.aroundCheckout(this.plugin.settings.currentBranch, mainBranch, () =>
+							this.plugin.gitQueue.enqueue(`Switch to ${mainBranch}`, () => this.plugin.gitRunner.run(['checkout', mainBranch])));
 						
 						// Update settings after successful checkout
 						this.plugin.settings.currentBranch = this.plugin.settings.mainBranch;
@@ -202,24 +482,79 @@ export class ReadOnlyOperations {
 		});
 	}
 
-	disableTextInput() {
-		// Prevent keyboard input in editors
-		document.addEventListener('keydown', this.plugin.preventKeyInput, true);
-		document.addEventListener('keypress', this.plugin.preventKeyInput, true);
-		document.addEventListener('input', this.plugin.preventInput, true);
-		
-		// Prevent mouse text selection and editing
-		document.addEventListener('mousedown', this.plugin.preventMouseEditing, true);
+	/**
+	 * Re-apply the protection rules to every open editor; call when the mode, the folder
+	 * rules or the note shown in an editor change
+	 */
+	refreshEditors() {
+		this.editorExtension.length = 0;
+		this.editorExtension.push(this.createEditorExtension());
+		this.plugin.app.workspace.updateOptions();
+		this.syncMarkdownViews();
 	}
 
-	enableTextInput() {
-		// Re-enable keyboard input
-		document.removeEventListener('keydown', this.plugin.preventKeyInput, true);
-		document.removeEventListener('keypress', this.plugin.preventKeyInput, true);
-		document.removeEventListener('input', this.plugin.preventInput, true);
-		
-		// Re-enable mouse editing
-		document.removeEventListener('mousedown', this.plugin.preventMouseEditing, true);
+	lockEditors() {
+		this.refreshEditors();
+	}
+
+	unlockEditors() {
+		this.confirmedPaths.clear();
+		this.refreshEditors();
+	}
+
+	/**
+	 * Locked editors refuse Obsidian's own reload when a note changes on disk (checkout, pull, revert),
+	 * so bring them in line with the file here
+	 */
+	async reloadLockedEditors(file: TAbstractFile) {
+		if (!(file instanceof TFile) || this.getNoteProtection(file.path) !== 'read-only') {
+			return;
+		}
+		const views = [...this.editorViews]
+			.map(tracked => tracked.view)
+			.filter(view => getEditorPath(view.state) === file.path);
+		if (views.length === 0) {
+			return;
+		}
+
+		const text = await this.plugin.app.vault.read(file);
+		views.forEach(view => {
+			if (view.state.doc.toString() === text) {
+				return;
+			}
+			view.dispatch({
+				changes: { from: 0, to: view.state.doc.length, insert: text },
+				annotations: allowLockedEdit.of(true)
+			});
+		});
+	}
+
+	/**
+	 * Match every open note's protection indicator to the rules that apply to it
+	 */
+	syncMarkdownViews() {
+		this.plugin.app.workspace.iterateAllLeaves((leaf: WorkspaceLeaf) => {
+			if (!(leaf.view instanceof MarkdownView)) {
+				return;
+			}
+			this.removeReadOnlyStyles(leaf.view);
+			const path = leaf.view.file ? leaf.view.file.path : null;
+			const protection = this.getNoteProtection(path);
+			if (protection === 'read-only') {
+				if (this.plugin.settings.suggestionMode) {
+					leaf.view.containerEl.classList.add('git-collab-suggesting-editor');
+				} else {
+					this.applyReadOnlyStyles(leaf.view);
+				}
+				if (this.plugin.settings.isRepositoryConnected) {
+					this.addProposeBanner(leaf.view);
+				}
+			} else if (protection === 'editable') {
+				leaf.view.containerEl.classList.add('git-collab-editable-editor');
+			} else if (protection === 'confirm' && path && !this.confirmedPaths.has(path)) {
+				leaf.view.containerEl.classList.add('git-collab-confirm-editor');
+			}
+		});
 	}
 
 	applyReadOnlyStyles(view: MarkdownView) {
@@ -229,14 +564,31 @@ export class ReadOnlyOperations {
 	}
 
 	removeReadOnlyStyles(view: MarkdownView) {
-		// Remove read-only class from the view container
+		// Remove every protection class from the view container
 		const viewContainer = view.containerEl;
-		viewContainer.classList.remove('git-collab-readonly-editor');
+		viewContainer.classList.remove('git-collab-readonly-editor', 'git-collab-suggesting-editor', 'git-collab-editable-editor', 'git-collab-confirm-editor');
+		view.contentEl.querySelectorAll('.git-collab-propose-banner').forEach(banner => banner.remove());
+	}
+
+	/**
+	 * Banner across the top of a read-only note offering to propose an edit to it
+	 */
+	addProposeBanner(view: MarkdownView) {
+		const banner = createDiv({ cls: 'git-collab-propose-banner' });
+		banner.createSpan({ text: `🔒 Read-only on ${this.plugin.settings.currentBranch}` });
+		const proposeButton = banner.createEl('button', { text: '✏️ Propose an edit' });
+		proposeButton.onclick = () => {
+			// The view may show another note by the time the button is clicked
+			if (view.file) {
+				this.proposeEdit(view.file);
+			}
+		};
+		view.contentEl.prepend(banner);
 	}
 
 	updateStatusBar() {
 		if (this.plugin.settings.isReadOnlyMode) {
-			this.plugin.statusBarItem.textContent = '🔒 READ-ONLY';
+			this.plugin.statusBarItem.textContent = this.plugin.settings.suggestionMode ? '💬 SUGGESTING' : '🔒 READ-ONLY';
 			this.plugin.statusBarItem.classList.add('git-collab-readonly-status');
 		} else {
 			this.plugin.statusBarItem.textContent = '✏️ EDIT MODE';
@@ -249,5 +601,20 @@ export class ReadOnlyOperations {
 		} else {
 			this.plugin.statusBarItem.textContent += ' | ❌ No Git';
 		}
+
+		// Show queued git work so users know why a command hasn't run yet
+		const running = this.plugin.gitQueue.getRunning();
+		const pending = this.plugin.gitQueue.getPending();
+		if (running) {
+			this.plugin.statusBarItem.textContent += ` | ⏳ ${running.label}`;
+			if (pending.length > 0) {
+				this.plugin.statusBarItem.textContent += ` (+${pending.length} queued)`;
+			}
+		}
+		const queueSummary = pending.map((operation: any) => `… ${operation.label}`);
+		if (running) {
+			queueSummary.unshift(`▶ ${running.label}`);
+		}
+		this.plugin.statusBarItem.setAttribute('aria-label', queueSummary.join('\n'));
 	}
 }
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { FileSystemAdapter } from 'obsidian';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+export interface GitResult {
+	stdout: string;
+	stderr: string;
+}
+
+export interface GitRunOptions {
+	// Working directory override; defaults to the vault root
+	cwd?: string;
+	// Extra environment variables for this invocation only
+	env?: Record<string, string>;
+}
+
+/**
+ * GitCommandError - Raised when a git process exits with a non-zero code
+ * Keeps the arguments and stderr so callers can inspect what went wrong
+ */
+export class GitCommandError extends Error {
+	args: string[];
+	stdout: string;
+	stderr: string;
+	exitCode: number | null;
+
+	constructor(args: string[], stdout: string, stderr: string, exitCode: number | null) {
+		super(stderr.trim() || `git ${args[0]} exited with code ${exitCode}`);
+		this.name = 'GitCommandError';
+		this.args = args;
+		this.stdout = stdout;
+		this.stderr = stderr;
+		this.exitCode = exitCode;
+	}
+}
+
+/**
+ * GitRunner - Single entry point for spawning git
+ * Arguments are passed as an array (no shell), so user input such as commit
+ * messages and branch names is never interpreted by a shell.
+ */
+export class GitRunner {
+	private plugin: any;
+
+	constructor(plugin: any) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Resolve the vault directory on disk, or null when the vault
+	 * is not backed by the file system (e.g. mobile)
+	 */
+	getVaultPath(): string | null {
+		const adapter = this.plugin.app.vault.adapter;
+		if (!(adapter instanceof FileSystemAdapter)) {
+			return null;
+		}
+		return (adapter as any).basePath || '';
+	}
+
+	async run(args: string[], options: GitRunOptions = {}): Promise<GitResult> {
+		const cwd = options.cwd !== undefined ? options.cwd : this.getVaultPath();
+		if (cwd === null) {
+			throw new Error('Cannot access vault directory for Git operations');
+		}
+
+		try {
+			const { stdout, stderr } = await execFileAsync('git', args, {
+				cwd,
+				env: this.buildEnv(options.env),
+				maxBuffer: 50 * 1024 * 1024
+			});
+			return { stdout, stderr };
+		} catch (error) {
+			if (error && typeof error.code === 'number') {
+				throw new GitCommandError(args, error.stdout || '', error.stderr || '', error.code);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Run a command whose exit code is the answer (e.g. check-ignore, ls-remote --exit-code)
+	 */
+	async succeeds(args: string[], options: GitRunOptions = {}): Promise<boolean> {
+		try {
+			await this.run(args, options);
+			return true;
+		} catch (error) {
+			return false;
+		}
+	}
+
+	private buildEnv(extra?: Record<string, string>): NodeJS.ProcessEnv {
+		return {
+			...process.env,
+			// Never block on an interactive credential prompt
+			GIT_TERMINAL_PROMPT: '0',
+			// Keep git messages in English so they can be matched reliably
+			LC_ALL: 'C',
+			...extra
+		};
+	}
+}
@@ -85,12 +85,135 @@ export class GitCollabSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Show Blame Gutter')
+			.setDesc('Show who last changed each line of a note, and when, beside the editor')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showBlameGutter)
+				.onChange(async (value) => {
+					this.plugin.settings.showBlameGutter = value;
+					await this.plugin.saveSettings();
+					this.plugin.updateBlameGutter();
+				}));
+
+		new Setting(containerEl)
+			.setName('Suggestion Mode')
+			.setDesc('In read-only mode, keep edits to notes as suggestions that can later be moved to a new branch, instead of blocking them')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.suggestionMode)
+				.onChange(async (value) => {
+					await this.plugin.readonlyOps.setSuggestionMode(value);
+				}));
+
 		// Note about tokens
 		containerEl.createEl('p', {
 			text: '💡 GitHub tokens are now stored per-repository for better security. Configure tokens when setting up each repository.',
 			cls: 'setting-item-description'
 		});
 
+		containerEl.createEl('h3', { text: 'Branch Protection' });
+
+		new Setting(containerEl)
+			.setName('Protected Branches')
+			.setDesc(`One pattern per line, e.g. "release/*" or "published". These can be viewed in read-only mode but never edited. ${this.plugin.settings.mainBranch} is always protected.`)
+			.addTextArea(text => {
+				text.setPlaceholder('release/*\npublished')
+					.setValue(this.plugin.settings.protectedBranches.join('\n'))
+					.onChange(async (value) => {
+						this.plugin.settings.protectedBranches = value.split('\n').map(line => line.trim()).filter(line => line);
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 3;
+			});
+
+		new Setting(containerEl)
+			.setName('Required Approvals')
+			.setDesc('Approvals a pull request needs before merging. GitHub\'s branch protection takes precedence when your token can read it.')
+			.addText(text => text
+				.setPlaceholder('1')
+				.setValue(String(this.plugin.settings.requiredApprovals))
+				.onChange(async (value) => {
+					const count = parseInt(value);
+					if (!isNaN(count) && count >= 0) {
+						this.plugin.settings.requiredApprovals = count;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		containerEl.createEl('h3', { text: 'Folder Rules' });
+
+		new Setting(containerEl)
+			.setName('Editable Folders')
+			.setDesc('One folder per line. Notes here can be edited even in read-only mode, e.g. Inbox or Personal scratch space')
+			.addTextArea(text => {
+				text.setPlaceholder('Inbox\nPersonal')
+					.setValue(this.plugin.settings.editableFolders.join('\n'))
+					.onChange(async (value) => {
+						this.plugin.settings.editableFolders = value.split('\n').map(line => line.trim()).filter(line => line);
+						await this.plugin.saveSettings();
+						this.plugin.readonlyOps.refreshEditors();
+					});
+				text.inputEl.rows = 3;
+			});
+
+		new Setting(containerEl)
+			.setName('Confirm Before Editing')
+			.setDesc('One folder per line. Editing notes here asks for confirmation first, even in edit mode, e.g. Policies')
+			.addTextArea(text => {
+				text.setPlaceholder('Policies')
+					.setValue(this.plugin.settings.confirmFolders.join('\n'))
+					.onChange(async (value) => {
+						this.plugin.settings.confirmFolders = value.split('\n').map(line => line.trim()).filter(line => line);
+						await this.plugin.saveSettings();
+						this.plugin.readonlyOps.refreshEditors();
+					});
+				text.inputEl.rows = 3;
+			});
+
+		// Branch naming policy
+		containerEl.createEl('h3', { text: 'Branch Naming' });
+
+		new Setting(containerEl)
+			.setName('Branch Name Templates')
+			.setDesc('One per line, offered as suggestions when creating a branch. Tokens: {user}, {date}, {note-title}')
+			.addTextArea(text => {
+				text.setValue(this.plugin.settings.branchNameTemplates.join('\n'))
+					.onChange(async (value) => {
+						this.plugin.settings.branchNameTemplates = value.split('\n').map(line => line.trim()).filter(line => line);
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 4;
+			});
+
+		new Setting(containerEl)
+			.setName('Allowed Branch Prefixes')
+			.setDesc('Comma-separated, e.g. "feature/, draft/". Leave empty to allow any name')
+			.addText(text => text
+				.setPlaceholder('feature/, draft/')
+				.setValue(this.plugin.settings.allowedBranchPrefixes.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.allowedBranchPrefixes = value.split(',').map(prefix => prefix.trim()).filter(prefix => prefix);
+					await this.plugin.saveSettings();
+				}));
+
+		const patternSetting = new Setting(containerEl)
+			.setName('Branch Name Pattern')
+			.setDesc('Optional regular expression every new branch name must match')
+			.addText(text => text
+				.setPlaceholder('^[a-z0-9/-]+$')
+				.setValue(this.plugin.settings.branchNamePattern)
+				.onChange(async (value) => {
+					try {
+						new RegExp(value);
+					} catch (error) {
+						patternSetting.setDesc(`⚠️ Invalid regular expression: ${error.message}`);
+						return;
+					}
+					patternSetting.setDesc('Optional regular expression every new branch name must match');
+					this.plugin.settings.branchNamePattern = value;
+					await this.plugin.saveSettings();
+				}));
+
 		// Action buttons
 		containerEl.createEl('h3', { text: 'Repository Actions' });
 
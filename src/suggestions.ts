@@ -0,0 +1,286 @@
+import { Extension, Transaction, TransactionSpec } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
+import { Events, editorInfoField } from 'obsidian';
+
+// Suggestions are saved with the settings once typing pauses for this long
+const SAVE_DELAY = 1000;
+
+/**
+ * One suggested change to a note: replace `original` (from..to in the note as it was
+ * when suggested) with `insert`. Pure insertions have from === to.
+ */
+export interface Suggestion {
+	from: number;
+	to: number;
+	original: string;
+	insert: string;
+}
+
+export interface NoteSuggestions {
+	// Hash of the note the suggestions were made against; they no longer apply once it changes
+	baseHash: number;
+	suggestions: Suggestion[];
+}
+
+/**
+ * Cheap fingerprint of a note's text (djb2)
+ */
+export function hashText(text: string): number {
+	let hash = 5381;
+	for (let i = 0; i < text.length; i++) {
+		hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+	}
+	return hash;
+}
+
+/**
+ * SuggestionStore - Edits typed on a protected branch, kept as patches against the note
+ * The note itself never changes; suggestions are saved with the settings until they're
+ * moved to a branch or discarded. Triggers 'change' with the note path when they do.
+ */
+export class SuggestionStore extends Events {
+	private plugin: any;
+	private saveTimer: number | null = null;
+
+	constructor(plugin: any) {
+		super();
+		this.plugin = plugin;
+	}
+
+	private get notes(): Record<string, NoteSuggestions> {
+		return this.plugin.settings.pendingSuggestions;
+	}
+
+	getPaths(): string[] {
+		return Object.keys(this.notes);
+	}
+
+	/**
+	 * Suggestions for a note, or null if there are none or the note has changed since
+	 */
+	get(path: string, text: string): Suggestion[] | null {
+		const entry = this.notes[path];
+		if (!entry || entry.baseHash !== hashText(text)) {
+			return null;
+		}
+		return entry.suggestions;
+	}
+
+	getAll(path: string): Suggestion[] {
+		const entry = this.notes[path];
+		return entry ? entry.suggestions : [];
+	}
+
+	/**
+	 * The note's text with every suggestion applied, or null if they no longer fit it
+	 */
+	apply(path: string, text: string): string | null {
+		const suggestions = this.get(path, text);
+		if (!suggestions) {
+			return null;
+		}
+		return [...suggestions]
+			.sort((a, b) => b.from - a.from)
+			.reduce((result, suggestion) => result.slice(0, suggestion.from) + suggestion.insert + result.slice(suggestion.to), text);
+	}
+
+	/**
+	 * Record a blocked edit as suggestions and return the cursor move to show in its place
+	 */
+	capture(path: string, transaction: Transaction): TransactionSpec {
+		const doc = transaction.startState.doc;
+		const text = doc.toString();
+		const baseHash = hashText(text);
+
+		let entry: NoteSuggestions | undefined = this.notes[path];
+		if (entry && entry.baseHash !== baseHash) {
+			console.log(`Discarding ${entry.suggestions.length} outdated suggestion(s) for ${path}`);
+			entry = undefined;
+		}
+		if (!entry) {
+			entry = { baseHash, suggestions: [] };
+			this.notes[path] = entry;
+		}
+
+		const suggestions = entry.suggestions;
+		const backward = transaction.isUserEvent('delete.backward');
+		let cursor = transaction.startState.selection.main.head;
+		transaction.changes.iterChanges((fromA, toA, _fromB, _toB, inserted) => {
+			cursor = this.merge(suggestions, text, fromA, toA, inserted.toString(), backward);
+		});
+
+		// Typing back what was there before leaves nothing to suggest
+		entry.suggestions = suggestions
+			.filter(suggestion => suggestion.insert !== suggestion.original)
+			.sort((a, b) => a.from - b.from);
+		if (entry.suggestions.length === 0) {
+			delete this.notes[path];
+		}
+		this.scheduleSave();
+		this.trigger('change', path);
+
+		return { selection: { anchor: cursor }, scrollIntoView: true };
+	}
+
+	/**
+	 * Fold one change into the suggestions it touches, so typing and deleting
+	 * grow a single replacement instead of many tiny ones. Returns the new cursor position.
+	 */
+	private merge(suggestions: Suggestion[], text: string, from: number, to: number, insert: string, backward: boolean): number {
+		// Backspace straight after suggested text takes back the last suggested character
+		const typedBefore = backward && insert === '' && to - from === 1
+			? suggestions.find(suggestion => suggestion.to === to && suggestion.insert.length > 0)
+			: undefined;
+		if (typedBefore) {
+			typedBefore.insert = typedBefore.insert.slice(0, -1);
+			return typedBefore.to;
+		}
+
+		const touching = suggestions
+			.filter(suggestion => suggestion.from <= to && suggestion.to >= from)
+			.sort((a, b) => a.from - b.from || a.to - b.to);
+		const mergedFrom = Math.min(from, ...touching.map(suggestion => suggestion.from));
+		const mergedTo = Math.max(to, ...touching.map(suggestion => suggestion.to));
+		touching.forEach(suggestion => suggestions.splice(suggestions.indexOf(suggestion), 1));
+
+		// Rebuild the suggested text left to right as it reads in the editor: each suggestion's text
+		// shows just before the position it ends at, and the change lands after whatever shows at `from`
+		let merged = '';
+		for (let position = mergedFrom; position <= mergedTo; position++) {
+			touching
+				.filter(suggestion => suggestion.to === position && !(from < position && position <= to))
+				.forEach(suggestion => {
+					merged += suggestion.insert;
+				});
+			if (position === from) {
+				merged += insert;
+			}
+			const struck = touching.some(suggestion => suggestion.from <= position && position < suggestion.to);
+			if (position < mergedTo && !struck && (position < from || position >= to)) {
+				merged += text[position];
+			}
+		}
+		suggestions.push({
+			from: mergedFrom,
+			to: mergedTo,
+			original: text.slice(mergedFrom, mergedTo),
+			insert: merged
+		});
+
+		// Keep deleting leftwards from the start of the struck-out text; otherwise sit after the suggestion
+		return backward && insert === '' ? mergedFrom : mergedTo;
+	}
+
+	/**
+	 * Save once typing pauses rather than on every keystroke
+	 */
+	private scheduleSave() {
+		if (this.saveTimer !== null) {
+			window.clearTimeout(this.saveTimer);
+		}
+		this.saveTimer = window.setTimeout(() => this.flush(), SAVE_DELAY);
+	}
+
+	async flush() {
+		if (this.saveTimer === null) {
+			return;
+		}
+		window.clearTimeout(this.saveTimer);
+		this.saveTimer = null;
+		await this.plugin.saveSettings();
+	}
+
+	async discard(paths: string[]) {
+		paths.forEach(path => delete this.notes[path]);
+		if (this.saveTimer !== null) {
+			window.clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+		await this.plugin.saveSettings();
+		paths.forEach(path => this.trigger('change', path));
+	}
+}
+
+class InsertionWidget extends WidgetType {
+	text: string;
+
+	constructor(text: string) {
+		super();
+		this.text = text;
+	}
+
+	eq(other: InsertionWidget): boolean {
+		return other.text === this.text;
+	}
+
+	toDOM(): HTMLElement {
+		const el = document.createElement('span');
+		el.className = 'git-suggestion-inserted';
+		el.textContent = this.text;
+		el.setAttribute('aria-label', 'Suggested text');
+		return el;
+	}
+}
+
+/**
+ * Shows pending suggestions in the editor as tracked changes:
+ * struck-out text for what would be removed, highlighted text for what would be added
+ */
+export function createSuggestionExtension(plugin: any): Extension {
+	const build = (view: EditorView): DecorationSet => {
+		const info = view.state.field(editorInfoField, false);
+		const suggestions = info && info.file ? plugin.suggestions.get(info.file.path, view.state.doc.toString()) : null;
+		if (!suggestions) {
+			return Decoration.none;
+		}
+
+		const ranges = [];
+		for (const suggestion of suggestions) {
+			if (suggestion.from < suggestion.to) {
+				ranges.push(Decoration.mark({ class: 'git-suggestion-deleted' }).range(suggestion.from, suggestion.to));
+			}
+			if (suggestion.insert) {
+				// Before the cursor at suggestion.to, so typing carries on after the suggested text
+				ranges.push(Decoration.widget({ widget: new InsertionWidget(suggestion.insert), side: -1 }).range(suggestion.to));
+			}
+		}
+		return Decoration.set(ranges, true);
+	};
+
+	return ViewPlugin.fromClass(class {
+		view: EditorView;
+		decorations: DecorationSet;
+		redrawPending = false;
+		destroyed = false;
+		onChange: () => void;
+
+		constructor(view: EditorView) {
+			this.view = view;
+			this.decorations = build(view);
+			this.onChange = () => {
+				// Rebuilt on the next update; an empty transaction makes one happen
+				this.redrawPending = true;
+				window.setTimeout(() => {
+					if (!this.destroyed) {
+						this.view.dispatch({});
+					}
+				});
+			};
+			plugin.suggestions.on('change', this.onChange);
+		}
+
+		update(update: ViewUpdate) {
+			if (this.redrawPending || update.docChanged) {
+				this.redrawPending = false;
+				this.decorations = build(update.view);
+			}
+		}
+
+		destroy() {
+			this.destroyed = true;
+			plugin.suggestions.off('change', this.onChange);
+		}
+	}, {
+		decorations: value => value.decorations
+	});
+}
@@ -0,0 +1,23 @@
+// Just enough of the Obsidian API for the modules under test; the real package only ships types
+
+type Callback = (...data: unknown[]) => unknown;
+
+export class Events {
+	private handlers: Record<string, Callback[]> = {};
+
+	on(name: string, callback: Callback) {
+		(this.handlers[name] = this.handlers[name] || []).push(callback);
+	}
+
+	off(name: string, callback: Callback) {
+		this.handlers[name] = (this.handlers[name] || []).filter(handler => handler !== callback);
+	}
+
+	trigger(name: string, ...data: unknown[]) {
+		(this.handlers[name] || []).forEach(handler => handler(...data));
+	}
+}
+
+export class FileSystemAdapter {}
+
+export const editorInfoField = {};
@@ -0,0 +1,103 @@
+import { CONFLICT_MARKER_SIZE, ConflictSegment, buildResolution, parseDiff3 } from '../src/conflicts';
+
+const ours = '<'.repeat(CONFLICT_MARKER_SIZE);
+const base = '|'.repeat(CONFLICT_MARKER_SIZE);
+const separator = '='.repeat(CONFLICT_MARKER_SIZE);
+const theirs = '>'.repeat(CONFLICT_MARKER_SIZE);
+
+function conflictText(...lines: string[]): string {
+	return lines.join('\n');
+}
+
+describe('parseDiff3', () => {
+	it('splits common lines and conflict hunks', () => {
+		const segments = parseDiff3(conflictText(
+			'# Title',
+			`${ours} ours`,
+			'Our line',
+			`${base} base`,
+			'Original line',
+			separator,
+			'Their line',
+			`${theirs} theirs`,
+			'Footer'
+		));
+
+		expect(segments).toEqual([
+			{ type: 'common', lines: ['# Title'] },
+			{ type: 'conflict', hunk: { ours: ['Our line'], base: ['Original line'], theirs: ['Their line'] } },
+			{ type: 'common', lines: ['Footer'] }
+		]);
+	});
+
+	it('keeps setext heading underlines and short markers as note text', () => {
+		const segments = parseDiff3(conflictText(
+			'Heading',
+			'=======',
+			`${ours} ours`,
+			'Section',
+			'=======',
+			'<<<<<<< quoted',
+			`${base} base`,
+			'Section',
+			'-------',
+			separator,
+			'Part',
+			'=======',
+			'>>>>>>> quoted',
+			`${theirs} theirs`
+		));
+
+		expect(segments).toEqual([
+			{ type: 'common', lines: ['Heading', '======='] },
+			{
+				type: 'conflict',
+				hunk: {
+					ours: ['Section', '=======', '<<<<<<< quoted'],
+					base: ['Section', '-------'],
+					theirs: ['Part', '=======', '>>>>>>> quoted']
+				}
+			}
+		]);
+	});
+
+	it('ignores markers longer than the configured size', () => {
+		const text = conflictText(`${ours}< ours`, `${separator}=`, `${theirs}> theirs`);
+		expect(parseDiff3(text)).toEqual([{ type: 'common', lines: text.split('\n') }]);
+	});
+
+	it('parses hunks without a base section', () => {
+		const segments = parseDiff3(conflictText(`${ours} ours`, 'A', separator, 'B', `${theirs} theirs`));
+		expect(segments).toEqual([{ type: 'conflict', hunk: { ours: ['A'], base: [], theirs: ['B'] } }]);
+	});
+});
+
+describe('buildResolution', () => {
+	const segments = (): ConflictSegment[] => [
+		{ type: 'common', lines: ['Start'] },
+		{ type: 'conflict', hunk: { ours: ['Ours'], base: ['Base'], theirs: ['Theirs'] } },
+		{ type: 'common', lines: ['End'] }
+	];
+
+	it('returns null while a hunk is undecided', () => {
+		expect(buildResolution(segments())).toBeNull();
+	});
+
+	it('uses the chosen side of each hunk', () => {
+		const resolved = segments();
+		const expected: Record<string, string> = {
+			ours: 'Start\nOurs\nEnd',
+			theirs: 'Start\nTheirs\nEnd',
+			base: 'Start\nBase\nEnd',
+			both: 'Start\nOurs\nTheirs\nEnd'
+		};
+
+		for (const choice of ['ours', 'theirs', 'base', 'both'] as const) {
+			const conflict = resolved[1];
+			if (conflict.type === 'conflict') {
+				conflict.hunk.choice = choice;
+			}
+			expect(buildResolution(resolved)).toBe(expected[choice]);
+		}
+	});
+});
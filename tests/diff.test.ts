@@ -0,0 +1,65 @@
+import { DiffOp, diffSequences, formatBytes, tokenizeWords } from '../src/diff';
+
+// Apply a diff's ops to rebuild both sides, which must match the inputs
+function sides(ops: DiffOp[]): [string[], string[]] {
+	const a: string[] = [];
+	const b: string[] = [];
+	ops.forEach(op => {
+		if (op.type !== 'insert') a.push(...op.tokens);
+		if (op.type !== 'delete') b.push(...op.tokens);
+	});
+	return [a, b];
+}
+
+describe('diffSequences', () => {
+	it('returns a single equal op for identical input', () => {
+		expect(diffSequences(['a', 'b'], ['a', 'b'])).toEqual([{ type: 'equal', tokens: ['a', 'b'] }]);
+	});
+
+	it('returns nothing for two empty sequences', () => {
+		expect(diffSequences([], [])).toEqual([]);
+	});
+
+	it('finds an insertion and a deletion around unchanged tokens', () => {
+		expect(diffSequences(['a', 'b', 'c', 'd'], ['a', 'c', 'x', 'd'])).toEqual([
+			{ type: 'equal', tokens: ['a'] },
+			{ type: 'delete', tokens: ['b'] },
+			{ type: 'equal', tokens: ['c'] },
+			{ type: 'insert', tokens: ['x'] },
+			{ type: 'equal', tokens: ['d'] }
+		]);
+	});
+
+	it('merges consecutive tokens of the same kind', () => {
+		expect(diffSequences(['a', 'b', 'c'], ['x', 'y', 'z'])).toEqual([
+			{ type: 'delete', tokens: ['a', 'b', 'c'] },
+			{ type: 'insert', tokens: ['x', 'y', 'z'] }
+		]);
+	});
+
+	it('keeps the longest common subsequence', () => {
+		const a = 'the quick brown fox jumps over the lazy dog'.split(' ');
+		const b = 'a quick red fox jumped over the dog'.split(' ');
+		const ops = diffSequences(a, b);
+
+		expect(sides(ops)).toEqual([a, b]);
+		const kept = ops.filter(op => op.type === 'equal').flatMap(op => op.tokens);
+		expect(kept).toEqual(['quick', 'fox', 'over', 'the', 'dog']);
+	});
+});
+
+describe('tokenizeWords', () => {
+	it('splits words, whitespace and punctuation without losing text', () => {
+		const tokens = tokenizeWords('Hello,  world!');
+		expect(tokens).toEqual(['Hello', ',', '  ', 'world', '!']);
+		expect(tokens.join('')).toBe('Hello,  world!');
+	});
+});
+
+describe('formatBytes', () => {
+	it('picks a readable unit', () => {
+		expect(formatBytes(512)).toBe('512 B');
+		expect(formatBytes(2048)).toBe('2.0 KB');
+		expect(formatBytes(5 * 1024 * 1024)).toBe('5.0 MB');
+	});
+});
@@ -0,0 +1,59 @@
+import { GitCollabError, classifyFetchError, classifyGitError, classifyHttpError } from '../src/errors';
+import { GitCommandError } from '../src/runner';
+
+function gitFailure(stderr: string): GitCommandError {
+	return new GitCommandError(['push'], '', stderr, 1);
+}
+
+describe('classifyGitError', () => {
+	it.each([
+		['fatal: Unable to create \'/vault/.git/index.lock\': File exists.', 'index-lock'],
+		['remote: Invalid username or password.\nfatal: Authentication failed for \'https://github.com/a/b.git/\'', 'auth'],
+		['fatal: unable to access \'https://github.com/a/b.git/\': The requested URL returned error: 403', 'auth'],
+		['CONFLICT (content): Merge conflict in notes.md\nAutomatic merge failed; fix conflicts and then commit the result.', 'merge-conflict'],
+		[' ! [rejected]        main -> main (fetch first)\nerror: failed to push some refs', 'non-fast-forward'],
+		['hint: You have divergent branches and need to specify how to reconcile them.\nfatal: Need to specify how to reconcile divergent branches.', 'non-fast-forward'],
+		['fatal: The current branch draft has no upstream branch.', 'missing-upstream'],
+		['fatal: unable to access \'https://github.com/a/b.git/\': Could not resolve host: github.com', 'offline'],
+		['fatal: You are not currently on a branch.', 'detached-head']
+	])('classifies %p as %s', (stderr, kind) => {
+		expect(classifyGitError(gitFailure(stderr)).kind).toBe(kind);
+	});
+
+	it('keeps the first line of anything else as the message', () => {
+		const error = classifyGitError(gitFailure('fatal: something new\nmore detail'));
+		expect(error.kind).toBe('unknown');
+		expect(error.message).toBe('fatal: something new');
+		expect(error.detail).toBe('fatal: something new\nmore detail');
+	});
+
+	it('passes classified errors through unchanged', () => {
+		const error = new GitCollabError('offline', 'Offline');
+		expect(classifyGitError(error)).toBe(error);
+	});
+});
+
+describe('classifyHttpError', () => {
+	it('treats 401 and non-rate-limit 403 responses as auth failures', () => {
+		expect(classifyHttpError(401, { message: 'Bad credentials' }).kind).toBe('auth');
+		expect(classifyHttpError(403, { message: 'Resource not accessible by integration' }).kind).toBe('auth');
+	});
+
+	it('does not treat rate limiting as an auth failure', () => {
+		const error = classifyHttpError(403, { message: 'API rate limit exceeded for user' });
+		expect(error.kind).toBe('unknown');
+		expect(error.message).toBe('API rate limit exceeded for user');
+	});
+
+	it('falls back to the status when the body has no usable message', () => {
+		expect(classifyHttpError(422, undefined).message).toBe('HTTP 422');
+		expect(classifyHttpError(500, 'Internal error').message).toBe('HTTP 500');
+		expect(classifyHttpError(422, { message: 42 }).message).toBe('HTTP 422');
+	});
+});
+
+describe('classifyFetchError', () => {
+	it('treats a rejected fetch as being offline', () => {
+		expect(classifyFetchError(new TypeError('Failed to fetch')).kind).toBe('offline');
+	});
+});
@@ -0,0 +1,130 @@
+import { branchMatchesPattern, expandBranchTemplate, getRefFormatError, isProtectedBranch, slugify, validateBranchName } from '../src/naming';
+
+describe('branchMatchesPattern', () => {
+	it('matches names exactly when there is no wildcard', () => {
+		expect(branchMatchesPattern('main', 'main')).toBe(true);
+		expect(branchMatchesPattern('main-old', 'main')).toBe(false);
+		expect(branchMatchesPattern('old/main', 'main')).toBe(false);
+	});
+
+	it('matches * within one path segment', () => {
+		expect(branchMatchesPattern('release/1.0', 'release/*')).toBe(true);
+		expect(branchMatchesPattern('release/', 'release/*')).toBe(true);
+		expect(branchMatchesPattern('release/1.0/hotfix', 'release/*')).toBe(false);
+		expect(branchMatchesPattern('releases/1.0', 'release/*')).toBe(false);
+		expect(branchMatchesPattern('hotfix-12', 'hotfix-*')).toBe(true);
+	});
+
+	it('matches ** across segments', () => {
+		expect(branchMatchesPattern('archive/2023/q1', 'archive/**')).toBe(true);
+		expect(branchMatchesPattern('archive/old', 'archive/**')).toBe(true);
+		expect(branchMatchesPattern('team/archive/old', 'archive/**')).toBe(false);
+	});
+
+	it('treats regular expression characters literally', () => {
+		expect(branchMatchesPattern('v1.0', 'v1.0')).toBe(true);
+		expect(branchMatchesPattern('v100', 'v1.0')).toBe(false);
+		expect(branchMatchesPattern('fix+docs', 'fix+docs')).toBe(true);
+		expect(branchMatchesPattern('(draft)', '(draft)')).toBe(true);
+	});
+
+	it('ignores surrounding whitespace in the pattern', () => {
+		expect(branchMatchesPattern('release/2.0', '  release/*  ')).toBe(true);
+	});
+});
+
+describe('isProtectedBranch', () => {
+	const settings = { mainBranch: 'main', protectedBranches: ['release/*', ' ', 'archive/**'] };
+
+	it('always protects the main branch', () => {
+		expect(isProtectedBranch('main', { mainBranch: 'main', protectedBranches: [] })).toBe(true);
+	});
+
+	it('protects branches matching any pattern', () => {
+		expect(isProtectedBranch('release/1.0', settings)).toBe(true);
+		expect(isProtectedBranch('archive/2023/q1', settings)).toBe(true);
+	});
+
+	it('leaves other branches editable, ignoring blank patterns', () => {
+		expect(isProtectedBranch('feature/notes', settings)).toBe(false);
+		expect(isProtectedBranch('release/1.0/hotfix', settings)).toBe(false);
+	});
+});
+
+describe('slugify', () => {
+	it('lowercases, strips accents and joins words with dashes', () => {
+		expect(slugify('  Café Notes: Q1 Review! ')).toBe('cafe-notes-q1-review');
+	});
+
+	it('returns an empty string when nothing is left', () => {
+		expect(slugify('!!!')).toBe('');
+	});
+});
+
+describe('expandBranchTemplate', () => {
+	const date = new Date('2024-03-05T12:00:00Z');
+
+	it('fills in user, date and note title', () => {
+		expect(expandBranchTemplate('draft/{user}-{note-title}-{date}', { userName: 'Ada Lovelace', noteTitle: 'Meeting Notes', date }))
+			.toBe('draft/ada-lovelace-meeting-notes-2024-03-05');
+	});
+
+	it('returns null when a token has no value', () => {
+		expect(expandBranchTemplate('edit/{note-title}', { userName: 'ada', noteTitle: null, date })).toBeNull();
+		expect(expandBranchTemplate('{user}/edits', { userName: '???', noteTitle: null, date })).toBeNull();
+	});
+
+	it('leaves unknown tokens alone', () => {
+		expect(expandBranchTemplate('{team}/{user}', { userName: 'ada', noteTitle: null, date })).toBe('{team}/ada');
+	});
+});
+
+describe('getRefFormatError', () => {
+	it('accepts ordinary branch names', () => {
+		expect(getRefFormatError('feature/my-edits')).toBeNull();
+	});
+
+	it.each([
+		'',
+		'my edits',
+		'what?',
+		'a..b',
+		'@',
+		'a@{1}',
+		'-draft',
+		'/draft',
+		'draft/',
+		'a//b',
+		'draft.',
+		'.hidden/branch',
+		'draft/notes.lock'
+	])('rejects %p', name => {
+		expect(getRefFormatError(name)).not.toBeNull();
+	});
+});
+
+describe('validateBranchName', () => {
+	const policy = { branchNameTemplates: [], allowedBranchPrefixes: ['draft/', 'edit/'], branchNamePattern: '^[a-z0-9/-]+$' };
+
+	it('accepts names that follow the policy', () => {
+		expect(validateBranchName('draft/new-notes', policy)).toBeNull();
+	});
+
+	it('rejects existing branches', () => {
+		expect(validateBranchName('draft/new-notes', policy, ['draft/new-notes'])).toContain('already exists');
+	});
+
+	it('requires one of the allowed prefixes', () => {
+		expect(validateBranchName('feature/new-notes', policy)).toContain('must start with');
+	});
+
+	it('requires the pattern to match', () => {
+		expect(validateBranchName('draft/New-Notes', policy)).toContain('must match the pattern');
+	});
+
+	it('ignores a pattern that is not a valid regular expression', () => {
+		const spy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+		expect(validateBranchName('draft/notes', { ...policy, branchNamePattern: '(' })).toBeNull();
+		spy.mockRestore();
+	});
+});
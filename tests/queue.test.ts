@@ -0,0 +1,58 @@
+import { GitOperationQueue } from '../src/queue';
+
+function deferred<T>() {
+	let resolve: (value: T) => void = () => undefined;
+	const promise = new Promise<T>(done => {
+		resolve = done;
+	});
+	return { promise, resolve };
+}
+
+describe('GitOperationQueue', () => {
+	it('runs operations one at a time in the order they were queued', async () => {
+		const queue = new GitOperationQueue();
+		const events: string[] = [];
+		const first = deferred<void>();
+
+		const a = queue.enqueue('first', async () => {
+			events.push('first started');
+			await first.promise;
+			events.push('first finished');
+			return 1;
+		});
+		const b = queue.enqueue('second', async () => {
+			events.push('second started');
+			return 2;
+		});
+
+		expect(queue.isBusy()).toBe(true);
+		expect(queue.getRunning()).toMatchObject({ label: 'first' });
+		expect(queue.getPending().map(operation => operation.label)).toEqual(['second']);
+
+		first.resolve();
+		expect(await Promise.all([a, b])).toEqual([1, 2]);
+		expect(events).toEqual(['first started', 'first finished', 'second started']);
+		expect(queue.isBusy()).toBe(false);
+	});
+
+	it('keeps going after an operation fails', async () => {
+		const queue = new GitOperationQueue();
+		const failing = queue.enqueue('failing', async () => {
+			throw new Error('boom');
+		});
+		const next = queue.enqueue('next', async () => 'ok');
+
+		await expect(failing).rejects.toThrow('boom');
+		await expect(next).resolves.toBe('ok');
+	});
+
+	it('triggers change as operations are queued, start and finish', async () => {
+		const queue = new GitOperationQueue();
+		const onChange = jest.fn();
+		queue.on('change', onChange);
+
+		await queue.enqueue('only', async () => undefined);
+		// queued, started, finished
+		expect(onChange).toHaveBeenCalledTimes(3);
+	});
+});
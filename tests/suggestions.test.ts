@@ -0,0 +1,120 @@
+import { EditorState, TransactionSpec } from '@codemirror/state';
+import { SuggestionStore, hashText } from '../src/suggestions';
+
+const NOTE = 'Hello world';
+const PATH = 'note.md';
+
+// Suggestions are saved after a pause, through window.setTimeout
+Object.assign(globalThis, { window: globalThis });
+
+function setup(cursor: number) {
+	const plugin = { settings: { pendingSuggestions: {} }, saveSettings: jest.fn() };
+	const store = new SuggestionStore(plugin);
+	let state = EditorState.create({ doc: NOTE, selection: { anchor: cursor } });
+
+	// Run an edit through the store the way the read-only filter does; the note itself never changes
+	const edit = (spec: TransactionSpec) => {
+		const result = store.capture(PATH, state.update(spec));
+		state = state.update(result).state;
+	};
+	const type = (text: string) => edit({ changes: { from: state.selection.main.head, insert: text }, userEvent: 'input.type' });
+	const backspace = () => edit({
+		changes: { from: state.selection.main.head - 1, to: state.selection.main.head },
+		userEvent: 'delete.backward'
+	});
+
+	return {
+		plugin,
+		store,
+		edit,
+		type,
+		backspace,
+		result: () => store.apply(PATH, NOTE),
+		cursor: () => state.selection.main.head
+	};
+}
+
+describe('SuggestionStore', () => {
+	beforeEach(() => {
+		jest.useFakeTimers();
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('grows one suggestion while typing', () => {
+		const editor = setup(5);
+		editor.type('a');
+		editor.type('b');
+
+		expect(editor.result()).toBe('Helloab world');
+		expect(editor.store.getAll(PATH)).toEqual([{ from: 5, to: 5, original: '', insert: 'ab' }]);
+	});
+
+	it('takes back suggested text on backspace before touching the note', () => {
+		const editor = setup(5);
+		editor.type('ab');
+		editor.backspace();
+		expect(editor.result()).toBe('Helloa world');
+
+		editor.backspace();
+		expect(editor.store.get(PATH, NOTE)).toBeNull();
+	});
+
+	it('strikes out note text when deleting backwards', () => {
+		const editor = setup(11);
+		editor.backspace();
+		editor.backspace();
+
+		expect(editor.result()).toBe('Hello wor');
+		expect(editor.store.getAll(PATH)).toEqual([{ from: 9, to: 11, original: 'ld', insert: '' }]);
+	});
+
+	it('puts text typed before a replacement ahead of its suggested text', () => {
+		const editor = setup(0);
+		editor.edit({ changes: { from: 0, to: 5, insert: 'Hi' }, userEvent: 'input.type' });
+		editor.edit({ changes: { from: 0, insert: 'X' }, userEvent: 'input.type' });
+		expect(editor.result()).toBe('XHi world');
+
+		editor.edit({ changes: { from: 5, insert: 'Y' }, userEvent: 'input.type' });
+		expect(editor.result()).toBe('XHiY world');
+	});
+
+	it('drops suggested text that a selection covers', () => {
+		const editor = setup(0);
+		editor.edit({ changes: { from: 0, to: 5, insert: 'Hi' }, userEvent: 'input.type' });
+		editor.edit({ changes: { from: 3, to: 7, insert: 'Z' }, userEvent: 'input.type' });
+
+		expect(editor.result()).toBe('Zorld');
+	});
+
+	it('forgets suggestions that type back the original text', () => {
+		const editor = setup(11);
+		editor.backspace();
+		editor.type('d');
+
+		expect(editor.store.getPaths()).toEqual([]);
+	});
+
+	it('no longer applies suggestions once the note has changed', () => {
+		const editor = setup(5);
+		editor.type('!');
+
+		expect(editor.store.get(PATH, `${NOTE}.`)).toBeNull();
+		expect(editor.store.apply(PATH, `${NOTE}.`)).toBeNull();
+		expect(editor.plugin.settings.pendingSuggestions).toEqual({
+			[PATH]: { baseHash: hashText(NOTE), suggestions: [{ from: 5, to: 5, original: '', insert: '!' }] }
+		});
+	});
+
+	it('saves once typing pauses', () => {
+		const editor = setup(5);
+		editor.type('a');
+		editor.type('b');
+		expect(editor.plugin.saveSettings).not.toHaveBeenCalled();
+
+		jest.runAllTimers();
+		expect(editor.plugin.saveSettings).toHaveBeenCalledTimes(1);
+	});
+});